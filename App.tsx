@@ -1,154 +1,284 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Scissors, RefreshCw } from 'lucide-react';
 import SpriteUploader from './components/SpriteUploader';
 import ImageEditor from './components/ImageEditor';
 import Controls from './components/Controls';
 import FramePreview from './components/FramePreview';
-import { sliceSpritesheet, detectSprites, sliceFromRects, loadImage, performFloodFill, applyTransparency } from './utils/spriteUtils';
-import { UploadedImage, SpriteConfig, ProcessedFrame, Rect, Color } from './types';
+import { DEFAULT_DETECTION, DEFAULT_KEYING, getDefaultKeyTolerance, DetectionOptions } from './utils/spriteUtils';
+import { mergeRects } from './utils/rectEditing';
+import { createPixelWorker, isJobCancelled, PixelWorkerClient } from './utils/pixelWorkerClient';
+import HistoryPanel from './components/HistoryPanel';
+import { History, createHistory, pushHistory, undoHistory, redoHistory, jumpToHistory, getHistoryEntries } from './utils/history';
+import { UploadedImage, SpriteConfig, ProcessedFrame, Rect, Color, EditorSnapshot } from './types';
+
+const DEFAULT_CONFIG: SpriteConfig = {
+  mode: 'grid', 
+  rows: 1, 
+  cols: 1, 
+  gridSizing: 'count',
+  cellWidth: 32,
+  cellHeight: 32,
+  offsetX: 0,
+  offsetY: 0,
+  spacingX: 0,
+  spacingY: 0,
+  skipEmptyCells: false,
+  removeBackground: false,
+  ...DEFAULT_KEYING,
+  useCustomSize: false,
+  customWidth: 64,
+  customHeight: 64,
+  ...DEFAULT_DETECTION
+};
+
+// Shared empty list, so props stay referentially stable when there is nothing to show
+const NO_RECTS: Rect[] = [];
 
 const App: React.FC = () => {
-  const [image, setImage] = useState<UploadedImage | null>(null);
-  const [config, setConfig] = useState<SpriteConfig>({ 
-    mode: 'grid', 
-    rows: 1, 
-    cols: 1, 
-    padding: 0, 
-    removeBackground: false,
-    backgroundColor: null,
-    useCustomSize: false,
-    customWidth: 64,
-    customHeight: 64
-  });
+  // Image, config and manual rects live in the undo history; its present entry is the current state
+  const [history, setHistory] = useState<History<EditorSnapshot> | null>(null);
+  const image = history?.present.state.image ?? null;
+  const config = history?.present.state.config ?? DEFAULT_CONFIG;
+  const manualRects = history?.present.state.manualRects ?? [];
   const [frames, setFrames] = useState<ProcessedFrame[]>([]);
   
   // State to hold rects for different modes
   const [detectedRects, setDetectedRects] = useState<Rect[]>([]);
-  const [manualRects, setManualRects] = useState<Rect[]>([]);
+  const [islandRects, setIslandRects] = useState<Rect[]>([]); // Raw islands, shown while tuning merging
+  const [spriteBounds, setSpriteBounds] = useState<Rect[]>([]); // Sprite edges that manual rects snap to
   
   // Magic Wand Selection State
   const [selectionMask, setSelectionMask] = useState<Uint8Array | null>(null);
   
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0); // 0-1 while processing
+
+  // One pixel worker for the whole session
+  const pixelWorkerRef = useRef<PixelWorkerClient | null>(null);
+  if (!pixelWorkerRef.current) pixelWorkerRef.current = createPixelWorker();
+  const pixelWorker = pixelWorkerRef.current;
+
+  useEffect(() => () => pixelWorker.dispose(), [pixelWorker]);
   const [isWandMode, setIsWandMode] = useState(false);
+  const [isEyedropperMode, setIsEyedropperMode] = useState(false);
 
-  // Effect to handle processing based on config mode
+  // Effect to handle processing based on config mode.
+  // The pixel work runs in the worker; a config change mid-run cancels the stale job.
   useEffect(() => {
     if (!image) return;
 
+    let isStale = false;
     const process = async () => {
       setIsProcessing(true);
+      setProgress(0);
       try {
-        const customSize = config.useCustomSize ? { width: config.customWidth, height: config.customHeight } : undefined;
-
-        if (config.mode === 'smart') {
-            const imgEl = await loadImage(image.src);
-            const rects = detectSprites(imgEl);
-            setDetectedRects(rects);
-            const sliced = await sliceFromRects(image.src, rects, config.removeBackground, config.backgroundColor, customSize);
-            setFrames(sliced);
-        } else if (config.mode === 'manual') {
-            // Use manual rects state
-            const sliced = await sliceFromRects(image.src, manualRects, config.removeBackground, config.backgroundColor, customSize);
-            setFrames(sliced);
-        } else {
-            // Grid Mode
-            const frameWidth = Math.floor(image.originalWidth / config.cols);
-            const frameHeight = Math.floor(image.originalHeight / config.rows);
-            
-            const gridRects: Rect[] = [];
-            for(let r=0; r<config.rows; r++) {
-                for(let c=0; c<config.cols; c++) {
-                    gridRects.push({
-                        x: c * frameWidth,
-                        y: r * frameHeight,
-                        width: frameWidth,
-                        height: frameHeight
-                    });
-                }
-            }
-            setDetectedRects(gridRects);
-            const sliced = await sliceSpritesheet(image.src, config.rows, config.cols, config.removeBackground, config.backgroundColor, customSize);
-            setFrames(sliced);
-        }
+        const result = await pixelWorker.slice(image.src, config, manualRects, setProgress);
+        if (isStale) return;
+        if (config.mode !== 'manual') setDetectedRects(result.rects);
+        setIslandRects(result.islandRects);
+        setFrames(result.frames);
       } catch (err) {
-        console.error("Error slicing sprite:", err);
+        if (!isJobCancelled(err)) console.error("Error slicing sprite:", err);
       } finally {
-        setIsProcessing(false);
+        if (!isStale) setIsProcessing(false);
       }
     };
 
     // Debounce slightly for smoothness
     const timer = setTimeout(process, 100);
-    return () => clearTimeout(timer);
+    return () => {
+      isStale = true;
+      clearTimeout(timer);
+      pixelWorker.cancel('slice');
+    };
 
   }, [image, config, manualRects]); // Depend on full config object
 
+  // Detect the sprites once per image so manual rects can snap to their edges
+  useEffect(() => {
+    if (!image || config.mode !== 'manual') return;
+
+    let isStale = false;
+    pixelWorker.detect(image.src, { ...config, traceContours: false })
+      .then(rects => { if (!isStale) setSpriteBounds(rects); })
+      .catch(err => { if (!isJobCancelled(err)) console.error("Error detecting sprite edges:", err); });
+    return () => { isStale = true; };
+  }, [image, config.mode]);
+
   const handleImageUpload = useCallback((uploaded: UploadedImage) => {
-    setImage(uploaded);
-    setConfig({ 
-      mode: 'grid', 
-      rows: 1, 
-      cols: 1, 
-      padding: 0, 
-      removeBackground: false,
-      backgroundColor: null,
-      useCustomSize: false,
-      customWidth: 64,
-      customHeight: 64
-    });
+    // Frames imported from a sidecar JSON open straight in manual mode
+    const importedRects = uploaded.importedRects ?? [];
+    setHistory(createHistory({
+      image: uploaded,
+      config: {
+        ...DEFAULT_CONFIG,
+        mode: importedRects.length > 0 ? 'manual' : 'grid'
+      },
+      manualRects: importedRects
+    }, 'Imagem carregada'));
     setFrames([]);
     setDetectedRects([]);
-    setManualRects([]);
+    setIslandRects([]);
+    setSpriteBounds([]);
     setIsWandMode(false);
+    setIsEyedropperMode(false);
     setSelectionMask(null);
   }, []);
 
   const handleReset = () => {
-    setImage(null);
+    setHistory(null);
     setFrames([]);
     setDetectedRects([]);
-    setManualRects([]);
+    setIslandRects([]);
+    setSpriteBounds([]);
     setIsWandMode(false);
+    setIsEyedropperMode(false);
     setSelectionMask(null);
   };
 
+  /**
+   * Applies an edit to the current snapshot and records it in the history.
+   * Edits sharing `mergeKey` in quick succession become a single entry.
+   */
+  const commitEdit = useCallback((
+    label: string,
+    update: (snapshot: EditorSnapshot) => EditorSnapshot,
+    mergeKey?: string
+  ) => {
+    setHistory(prev => prev && pushHistory(prev, update(prev.present.state), label, mergeKey));
+  }, []);
+
+  // Moving through the history leaves any pending wand selection behind
+  const navigateHistory = useCallback((navigate: (h: History<EditorSnapshot>) => History<EditorSnapshot>) => {
+    setHistory(prev => prev && navigate(prev));
+    setSelectionMask(null);
+  }, []);
+
+  const handleUndo = useCallback(() => navigateHistory(undoHistory), [navigateHistory]);
+  const handleRedo = useCallback(() => navigateHistory(redoHistory), [navigateHistory]);
+  const handleJumpToHistory = (index: number) => navigateHistory(h => jumpToHistory(h, index));
+
+  // Wand edits store their sheet as an object URL; release it once no history entry refers to it
+  const objectUrlsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const inUse = new Set(history ? getHistoryEntries<EditorSnapshot>(history).map(entry => entry.state.image.src) : []);
+    objectUrlsRef.current.forEach(url => {
+      if (inUse.has(url)) return;
+      URL.revokeObjectURL(url);
+      objectUrlsRef.current.delete(url);
+    });
+  }, [history]);
+
+  useEffect(() => () => objectUrlsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target;
+      const editsText = target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement && ['text', 'number', 'search'].includes(target.type));
+      if (editsText) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleConfigChange = (newConfig: SpriteConfig) => {
+    const changedKeys = (Object.keys(newConfig) as (keyof SpriteConfig)[])
+      .filter(key => newConfig[key] !== config[key]);
+    if (changedKeys.length === 0) return;
+
+    const label = changedKeys.includes('mode') ? 'Mudar modo' : 'Ajustar configuração';
+    commitEdit(label, s => ({ ...s, config: newConfig }), `config:${changedKeys.join(',')}`);
+  };
+
   // Manual Mode Handlers
   const addManualRect = (rect: Rect) => {
-    setManualRects(prev => [...prev, rect]);
+    commitEdit('Adicionar seleção', s => ({ ...s, manualRects: [...s.manualRects, rect] }));
   };
 
   const removeManualRect = (index: number) => {
-    setManualRects(prev => prev.filter((_, i) => i !== index));
+    commitEdit(`Remover seleção #${index}`, s => ({ ...s, manualRects: s.manualRects.filter((_, i) => i !== index) }));
+  };
+
+  const updateManualRect = (index: number, rect: Rect) => {
+    commitEdit(
+      `Editar seleção #${index}`,
+      s => ({ ...s, manualRects: s.manualRects.map((r, i) => (i === index ? rect : r)) }),
+      `rect:${index}`
+    );
+  };
+
+  const removeManualRects = (indexes: number[]) => {
+    commitEdit(`Remover ${indexes.length} seleções`, s => ({
+      ...s,
+      manualRects: s.manualRects.filter((_, i) => !indexes.includes(i))
+    }));
+  };
+
+  // The union replaces the first of the merged rects
+  const mergeManualRects = (indexes: number[]) => {
+    if (indexes.length < 2) return;
+    const first = Math.min(...indexes);
+    commitEdit(`Unir ${indexes.length} seleções`, s => {
+      const merged = mergeRects(indexes.map(i => s.manualRects[i]));
+      return {
+        ...s,
+        manualRects: s.manualRects.flatMap((r, i) => (i === first ? [merged] : indexes.includes(i) ? [] : [r]))
+      };
+    });
+  };
+
+  const splitManualRect = (index: number, parts: Rect[]) => {
+    commitEdit(`Dividir seleção #${index}`, s => ({
+      ...s,
+      manualRects: s.manualRects.flatMap((r, i) => (i === index ? parts : [r]))
+    }));
   };
 
   const clearManualRects = () => {
-    setManualRects([]);
+    if (manualRects.length === 0) return;
+    commitEdit('Limpar seleções', s => ({ ...s, manualRects: [] }));
   };
   
   const handleWandSelect = async (x: number, y: number) => {
       if (!image) return;
       // Perform flood fill
-      const imgEl = await loadImage(image.src);
-      const mask = performFloodFill(imgEl, x, y);
-      setSelectionMask(mask);
+      try {
+        const mask = await pixelWorker.floodFill(image.src, x, y);
+        setSelectionMask(mask);
+      } catch (e) {
+        if (!isJobCancelled(e)) console.error(e);
+      }
   };
 
   const handleConfirmRemoval = async () => {
       if (!image || !selectionMask) return;
       setIsProcessing(true);
       try {
-        const imgEl = await loadImage(image.src);
-        const newSrc = applyTransparency(imgEl, selectionMask);
-        
-        setImage({
-            ...image,
-            src: newSrc
-        });
+        // Kept as an object URL: a compact Blob instead of a full-sheet Data URL string per entry
+        const newSrc = URL.createObjectURL(await pixelWorker.applyMask(image.src, selectionMask));
+        objectUrlsRef.current.add(newSrc);
+
+        commitEdit('Remover área (varinha)', s => ({
+            ...s,
+            image: { ...s.image, src: newSrc }
+        }));
         setSelectionMask(null);
         // Config will trigger reprocessing automatically via useEffect
       } catch (e) {
-        console.error(e);
+        if (!isJobCancelled(e)) console.error(e);
       } finally {
         setIsProcessing(false);
       }
@@ -158,9 +288,60 @@ const App: React.FC = () => {
       setSelectionMask(null);
   };
 
+  // The wand and the eyedropper both take over image clicks, so only one can be active
+  const handleWandModeChange = (active: boolean) => {
+      setIsWandMode(active);
+      if (active) setIsEyedropperMode(false);
+  };
+
+  const handleEyedropperModeChange = (active: boolean) => {
+      setIsEyedropperMode(active);
+      if (active) {
+        setIsWandMode(false);
+        setSelectionMask(null);
+      }
+  };
+
+  const handlePickColor = (color: Color) => {
+      const isKnown = config.keyColors.some(k => k.color.r === color.r && k.color.g === color.g && k.color.b === color.b);
+      if (isKnown && config.removeBackground) return;
+      commitEdit('Adicionar cor-chave', s => ({
+        ...s,
+        config: {
+          ...s.config,
+          removeBackground: true,
+          keyColors: isKnown ? s.config.keyColors : [...s.config.keyColors, { color, tolerance: getDefaultKeyTolerance(s.config.keyingMode) }]
+        }
+      }));
+  };
+
   // Determine which set of rects to show in editor
   const displayRects = config.mode === 'manual' ? manualRects : detectedRects;
 
+  // Grid frames are identified by cell index, so missing ids are the skipped empty cells
+  const skippedRects = useMemo(() => {
+    if (config.mode !== 'grid' || !config.skipEmptyCells || isProcessing) return NO_RECTS;
+    const frameIds = new Set(frames.map(f => f.id));
+    return detectedRects.filter((_, i) => !frameIds.has(i));
+  }, [frames, detectedRects, config.mode, config.skipEmptyCells, isProcessing]);
+
+  // Sprite boxes for grid inference, detected in the worker so large sheets don't freeze the UI
+  const handleDetectSprites = (options: DetectionOptions) =>
+    image ? pixelWorker.detect(image.src, options) : Promise.resolve<Rect[]>([]);
+
+  // Carries the detected (or grid) rects into manual mode, where they can be edited one by one
+  const handleConvertToEditable = () => {
+    const editable = detectedRects
+      .filter(rect => !skippedRects.includes(rect))
+      .map(rect => ({ ...rect }));
+    if (editable.length === 0) return;
+    commitEdit('Converter para editável', s => ({
+      ...s,
+      config: { ...s.config, mode: 'manual' },
+      manualRects: editable
+    }));
+  };
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 selection:bg-indigo-500/30 font-sans">
       {/* Header */}
@@ -173,6 +354,14 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold tracking-tight">Sprite<span className="text-indigo-400">Cutter</span></h1>
           </div>
           <div className="flex items-center gap-4">
+             {history && (
+                <HistoryPanel
+                  history={history}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  onJump={handleJumpToHistory}
+                />
+             )}
              {image && (
                 <button 
                   onClick={handleReset}
@@ -201,11 +390,20 @@ const App: React.FC = () => {
                     <ImageEditor 
                         image={image} 
                         rects={displayRects} 
+                        islandRects={config.mode === 'smart' ? islandRects : NO_RECTS}
+                        skippedRects={skippedRects}
                         mode={config.mode}
                         onAddManualRect={addManualRect}
                         onRemoveManualRect={removeManualRect}
+                        onUpdateManualRect={updateManualRect}
+                        onRemoveManualRects={removeManualRects}
+                        onMergeManualRects={mergeManualRects}
+                        onSplitManualRect={splitManualRect}
+                        snapRects={spriteBounds}
                         isWandMode={isWandMode}
                         onWandSelect={handleWandSelect}
+                        isEyedropperMode={isEyedropperMode}
+                        onPickColor={handlePickColor}
                         selectionMask={selectionMask}
                     />
                  </div>
@@ -215,12 +413,16 @@ const App: React.FC = () => {
                     <Controls 
                       image={image} 
                       config={config} 
-                      onConfigChange={setConfig} 
+                      onConfigChange={handleConfigChange} 
                       processedFrames={frames}
                       isProcessing={isProcessing}
                       onClearManual={clearManualRects}
+                      onConvertToEditable={handleConvertToEditable}
+                      onDetectSprites={handleDetectSprites}
                       isWandMode={isWandMode}
-                      setIsWandMode={setIsWandMode}
+                      setIsWandMode={handleWandModeChange}
+                      isEyedropperMode={isEyedropperMode}
+                      setIsEyedropperMode={handleEyedropperModeChange}
                       selectionMask={selectionMask}
                       onConfirmRemoval={handleConfirmRemoval}
                       onCancelSelection={handleCancelSelection}
@@ -230,7 +432,7 @@ const App: React.FC = () => {
 
               {/* Right Column: Results Preview */}
               <div className="lg:col-span-7 h-full min-h-0">
-                <FramePreview frames={frames} isLoading={isProcessing} />
+                <FramePreview frames={frames} isLoading={isProcessing} progress={progress} />
               </div>
 
             </div>
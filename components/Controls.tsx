@@ -1,7 +1,10 @@
-import React from 'react';
-import { Grid3X3, Download, Layers, Wand2, Lasso, Trash2, Eraser, Maximize, Check, X } from 'lucide-react';
-import { UploadedImage, SpriteConfig, ProcessedFrame } from '../types';
-import JSZip from 'jszip';
+import React, { useEffect, useState } from 'react';
+import { Grid3X3, Layers, Wand2, Lasso, Trash2, Eraser, Maximize, Check, X, SlidersHorizontal, ScanSearch, Loader2, SquarePen, Pipette } from 'lucide-react';
+import { UploadedImage, SpriteConfig, ProcessedFrame, KeyColor, Rect } from '../types';
+import { colorToHex, hexToColor, computeGridLayout, getDefaultKeyTolerance, DetectionOptions } from '../utils/spriteUtils';
+import { isJobCancelled } from '../utils/pixelWorkerClient';
+import { inferGrid, GridProposal } from '../utils/gridDetection';
+import ExportPanel from './ExportPanel';
 
 interface ControlsProps {
   image: UploadedImage | null;
@@ -9,9 +12,13 @@ interface ControlsProps {
   processedFrames: ProcessedFrame[];
   onConfigChange: (config: SpriteConfig) => void;
   onClearManual: () => void;
+  onConvertToEditable: () => void; // Moves the detected/grid rects into manual mode
+  onDetectSprites: (options: DetectionOptions) => Promise<Rect[]>; // Runs in the pixel worker
   isProcessing: boolean;
   isWandMode: boolean;
   setIsWandMode: (v: boolean) => void;
+  isEyedropperMode: boolean; // Clicking the image adds a key color
+  setIsEyedropperMode: (v: boolean) => void;
   selectionMask: Uint8Array | null;
   onConfirmRemoval: () => void;
   onCancelSelection: () => void;
@@ -22,15 +29,62 @@ const Controls: React.FC<ControlsProps> = ({
   config, 
   onConfigChange, 
   onClearManual,
+  onConvertToEditable,
+  onDetectSprites,
   processedFrames,
   isProcessing,
   isWandMode,
   setIsWandMode,
+  isEyedropperMode,
+  setIsEyedropperMode,
   selectionMask,
   onConfirmRemoval,
   onCancelSelection
 }) => {
-  const [isZipping, setIsZipping] = React.useState(false);
+  const [gridProposal, setGridProposal] = useState<GridProposal | null>(null);
+  const [isInferringGrid, setIsInferringGrid] = useState(false);
+
+  // A proposal only makes sense for the image it was computed from
+  useEffect(() => {
+    setGridProposal(null);
+  }, [image?.src]);
+
+  const handleInferGrid = async () => {
+    if (!image) return;
+    setIsInferringGrid(true);
+    try {
+      const rects = await onDetectSprites({ ...config, traceContours: false }); // Only the boxes matter here
+      const proposal = inferGrid(rects, { width: image.originalWidth, height: image.originalHeight });
+      if (!proposal) {
+        alert('Nenhum sprite encontrado para inferir a grade.');
+      }
+      setGridProposal(proposal);
+    } catch (error) {
+      if (isJobCancelled(error)) return;
+      console.error('Error inferring grid', error);
+      alert('Erro ao detectar a grade.');
+    } finally {
+      setIsInferringGrid(false);
+    }
+  };
+
+  const updateKeyColor = (index: number, key: KeyColor) => {
+    onConfigChange({ ...config, keyColors: config.keyColors.map((k, i) => i === index ? key : k) });
+  };
+
+  // RGB sums and ΔE don't convert, so switching resets the tolerances to the new mode's default
+  const setKeyingMode = (keyingMode: SpriteConfig['keyingMode']) => {
+    if (keyingMode === config.keyingMode) return;
+    const tolerance = getDefaultKeyTolerance(keyingMode);
+    onConfigChange({ ...config, keyingMode, keyColors: config.keyColors.map(k => ({ ...k, tolerance })) });
+  };
+
+  const applyGridProposal = () => {
+    if (!gridProposal) return;
+    const { confidence, ...grid } = gridProposal;
+    onConfigChange({ ...config, ...grid, gridSizing: 'cellSize' });
+    setGridProposal(null);
+  };
 
   if (!image) {
     return (
@@ -43,39 +97,9 @@ const Controls: React.FC<ControlsProps> = ({
     );
   }
 
-  const frameWidth = Math.floor(image.originalWidth / config.cols);
-  const frameHeight = Math.floor(image.originalHeight / config.rows);
+  const gridLayout = computeGridLayout(image.originalWidth, image.originalHeight, config);
   const totalFrames = processedFrames.length;
 
-  const handleDownload = async () => {
-    if (processedFrames.length === 0) return;
-
-    setIsZipping(true);
-    try {
-      const zip = new JSZip();
-      
-      processedFrames.forEach((frame) => {
-        const base64Data = frame.dataUrl.split(',')[1];
-        zip.file(`frame_${frame.id}.png`, base64Data, { base64: true });
-      });
-
-      const content = await zip.generateAsync({ type: 'blob' });
-      const url = window.URL.createObjectURL(content);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${image.file.name.split('.')[0]}_frames.zip`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-    } catch (error) {
-      console.error("Failed to zip files", error);
-      alert("Erro ao gerar o arquivo ZIP.");
-    } finally {
-      setIsZipping(false);
-    }
-  };
-
   return (
     <div className="bg-slate-800 rounded-xl border border-slate-700 flex flex-col overflow-hidden h-full">
       <div className="p-4 border-b border-slate-700 bg-slate-800/50">
@@ -126,7 +150,7 @@ const Controls: React.FC<ControlsProps> = ({
           {config.mode === 'grid' && (
              <div className="flex justify-between text-slate-400">
                <span>Tamanho do Frame:</span>
-               <span className="text-indigo-300 font-mono font-bold">{frameWidth} x {frameHeight}px</span>
+               <span className="text-indigo-300 font-mono font-bold">{gridLayout.cellWidth} x {gridLayout.cellHeight}px</span>
              </div>
           )}
           <div className="flex justify-between text-slate-400">
@@ -184,20 +208,120 @@ const Controls: React.FC<ControlsProps> = ({
             </div>
 
              {/* Remove Background Global (Eraser) */}
-             <div className="flex items-center justify-between p-3 bg-slate-900 rounded-lg border border-slate-700 hover:border-slate-600 transition-colors">
-                <div className="flex items-center gap-2.5">
-                    <Eraser className={`w-4 h-4 ${config.removeBackground ? 'text-indigo-400' : 'text-slate-400'}`} />
-                    <div className="flex flex-col">
-                        <span className="text-sm text-slate-200 font-medium">Remover Cor (Global)</span>
-                        <span className="text-[10px] text-slate-500">Remove a cor do pixel (0,0)</span>
+             <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 hover:border-slate-600 transition-colors space-y-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2.5">
+                        <Eraser className={`w-4 h-4 ${config.removeBackground ? 'text-indigo-400' : 'text-slate-400'}`} />
+                        <div className="flex flex-col">
+                            <span className="text-sm text-slate-200 font-medium">Remover Cor (Global)</span>
+                            <span className="text-[10px] text-slate-500">
+                                {config.keyColors.length > 0 ? `${config.keyColors.length} cor(es)-chave` : 'Remove a cor do pixel (0,0)'}
+                            </span>
+                        </div>
                     </div>
+                    <button
+                        onClick={() => onConfigChange({ ...config, removeBackground: !config.removeBackground })}
+                        className={`w-10 h-5 rounded-full relative transition-colors duration-200 ${config.removeBackground ? 'bg-indigo-600' : 'bg-slate-700'}`}
+                    >
+                        <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform duration-200 shadow-sm ${config.removeBackground ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
                 </div>
-                <button
-                    onClick={() => onConfigChange({ ...config, removeBackground: !config.removeBackground })}
-                    className={`w-10 h-5 rounded-full relative transition-colors duration-200 ${config.removeBackground ? 'bg-indigo-600' : 'bg-slate-700'}`}
-                >
-                    <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform duration-200 shadow-sm ${config.removeBackground ? 'translate-x-5' : 'translate-x-0'}`} />
-                </button>
+
+                {config.removeBackground && (
+                    <div className="animate-in fade-in slide-in-from-top-2 duration-200 space-y-2">
+                        <div className="grid grid-cols-2 gap-1 bg-slate-800 p-1 rounded">
+                            <button
+                                onClick={() => setKeyingMode('hard')}
+                                className={`py-1 text-xs rounded transition-colors ${config.keyingMode === 'hard' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                            >
+                                Rígido (RGB)
+                            </button>
+                            <button
+                                onClick={() => setKeyingMode('soft')}
+                                className={`py-1 text-xs rounded transition-colors ${config.keyingMode === 'soft' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                            >
+                                Suave (ΔE)
+                            </button>
+                        </div>
+
+                        {config.keyingMode === 'soft' && (
+                            <div className="space-y-2">
+                                <div>
+                                    <div className="flex justify-between items-center mb-1">
+                                        <label className="text-[10px] uppercase text-slate-500 font-bold">Suavização da Borda (ΔE)</label>
+                                        <span className="text-xs text-slate-300 font-mono">{config.keySoftness}</span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="50"
+                                        step="1"
+                                        value={config.keySoftness}
+                                        onChange={(e) => onConfigChange({ ...config, keySoftness: parseInt(e.target.value) })}
+                                        className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                    />
+                                </div>
+                                <div className="flex items-center justify-between">
+                                    <div className="flex flex-col">
+                                        <span className="text-xs text-slate-300">Descontaminar Bordas</span>
+                                        <span className="text-[10px] text-slate-500">Tira o reflexo da cor-chave dos contornos</span>
+                                    </div>
+                                    <button
+                                        onClick={() => onConfigChange({ ...config, despill: !config.despill })}
+                                        className={`w-10 h-5 rounded-full relative transition-colors duration-200 ${config.despill ? 'bg-indigo-600' : 'bg-slate-700'}`}
+                                    >
+                                        <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform duration-200 shadow-sm ${config.despill ? 'translate-x-5' : 'translate-x-0'}`} />
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        <button
+                            onClick={() => setIsEyedropperMode(!isEyedropperMode)}
+                            className={`w-full flex items-center justify-center gap-1.5 text-xs py-1.5 rounded border transition-colors ${isEyedropperMode ? 'border-indigo-500 text-indigo-300 bg-indigo-500/10' : 'border-slate-600 text-slate-400 hover:text-slate-200'}`}
+                        >
+                            <Pipette className="w-3 h-3" />
+                            {isEyedropperMode ? 'Clique na imagem para pegar a cor' : 'Conta-gotas'}
+                        </button>
+
+                        {config.keyColors.length === 0 ? (
+                            <p className="text-xs text-slate-500 italic text-center py-1">
+                                Nenhuma cor escolhida: usando o pixel (0,0).
+                            </p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {config.keyColors.map((key, i) => (
+                                    <li key={i} className="flex items-center gap-2">
+                                        <input
+                                            type="color"
+                                            value={colorToHex(key.color)}
+                                            onChange={(e) => updateKeyColor(i, { ...key, color: hexToColor(e.target.value) })}
+                                            className="w-7 h-7 shrink-0 bg-transparent border border-slate-600 rounded cursor-pointer"
+                                        />
+                                        <input
+                                            type="range"
+                                            min="0"
+                                            max={config.keyingMode === 'soft' ? 100 : 255}
+                                            step="1"
+                                            value={key.tolerance}
+                                            onChange={(e) => updateKeyColor(i, { ...key, tolerance: parseInt(e.target.value) })}
+                                            title="Tolerância"
+                                            className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                        />
+                                        <span className="w-7 text-right text-xs text-slate-300 font-mono">{key.tolerance}</span>
+                                        <button
+                                            onClick={() => onConfigChange({ ...config, keyColors: config.keyColors.filter((_, j) => j !== i) })}
+                                            title="Remover cor"
+                                            className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
             </div>
 
             {/* Custom Size */}
@@ -248,50 +372,219 @@ const Controls: React.FC<ControlsProps> = ({
         {/* Controls per mode */}
         {config.mode === 'grid' && (
           <div className="space-y-6 animate-in fade-in duration-300">
+            {/* Auto Grid */}
             <div className="space-y-3">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-slate-300">Colunas (X)</label>
-                <input 
-                  type="number" 
-                  min="1" 
-                  max={Math.max(1, image.originalWidth)}
-                  value={config.cols}
-                  onChange={(e) => onConfigChange({...config, cols: Math.max(1, parseInt(e.target.value) || 1)})}
-                  className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-right text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-                />
-              </div>
-              <input
-                type="range"
-                min="1"
-                max={24}
-                step="1"
-                value={config.cols}
-                onChange={(e) => onConfigChange({...config, cols: parseInt(e.target.value)})}
-                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
-              />
+              <button
+                onClick={handleInferGrid}
+                disabled={isInferringGrid}
+                className="w-full flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg border border-indigo-500/40 text-indigo-300 bg-indigo-500/10 hover:bg-indigo-500/20 disabled:opacity-50 transition-colors"
+              >
+                {isInferringGrid ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanSearch className="w-4 h-4" />}
+                {isInferringGrid ? 'Analisando a Imagem...' : 'Detectar Grade Automaticamente'}
+              </button>
+
+              {gridProposal && (
+                <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 space-y-3 animate-in fade-in slide-in-from-top-2 duration-200">
+                  <div>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-[10px] uppercase text-slate-500 font-bold">Confiança</span>
+                      <span className="text-xs text-slate-300 font-mono">{Math.round(gridProposal.confidence * 100)}%</span>
+                    </div>
+                    <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${gridProposal.confidence >= 0.75 ? 'bg-emerald-500' : gridProposal.confidence >= 0.4 ? 'bg-amber-500' : 'bg-red-500'}`}
+                        style={{ width: `${Math.round(gridProposal.confidence * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-slate-400">
+                    <span>Grade:</span>
+                    <span className="text-slate-200 font-mono text-right">{gridProposal.cols} x {gridProposal.rows}</span>
+                    <span>Célula:</span>
+                    <span className="text-slate-200 font-mono text-right">{gridProposal.cellWidth} x {gridProposal.cellHeight}px</span>
+                    <span>Margem:</span>
+                    <span className="text-slate-200 font-mono text-right">{gridProposal.offsetX}, {gridProposal.offsetY}px</span>
+                    <span>Espaçamento:</span>
+                    <span className="text-slate-200 font-mono text-right">{gridProposal.spacingX}, {gridProposal.spacingY}px</span>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={applyGridProposal}
+                      className="flex-1 flex items-center justify-center gap-1 bg-indigo-600 hover:bg-indigo-500 text-white text-xs py-2 rounded transition-colors"
+                    >
+                      <Check className="w-3 h-3" />
+                      Aplicar
+                    </button>
+                    <button 
+                      onClick={() => setGridProposal(null)}
+                      className="flex-1 flex items-center justify-center gap-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs py-2 rounded transition-colors"
+                    >
+                      <X className="w-3 h-3" />
+                      Descartar
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
 
-            <div className="space-y-3">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-slate-300">Linhas (Y)</label>
-                <input 
-                  type="number" 
-                  min="1" 
-                  max={Math.max(1, image.originalHeight)}
-                  value={config.rows}
-                  onChange={(e) => onConfigChange({...config, rows: Math.max(1, parseInt(e.target.value) || 1)})}
-                  className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-right text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-                />
+            <div className="grid grid-cols-2 gap-1 bg-slate-900 p-1 rounded-lg border border-slate-700">
+              <button
+                onClick={() => onConfigChange({ ...config, gridSizing: 'count' })}
+                className={`py-1.5 text-xs rounded-md transition-colors ${config.gridSizing === 'count' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                Linhas / Colunas
+              </button>
+              <button
+                onClick={() => onConfigChange({ ...config, gridSizing: 'cellSize' })}
+                className={`py-1.5 text-xs rounded-md transition-colors ${config.gridSizing === 'cellSize' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                Tamanho da Célula
+              </button>
+            </div>
+
+            {config.gridSizing === 'count' ? (
+              <>
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-medium text-slate-300">Colunas (X)</label>
+                    <input 
+                      type="number" 
+                      min="1" 
+                      max={Math.max(1, image.originalWidth)}
+                      value={config.cols}
+                      onChange={(e) => onConfigChange({...config, cols: Math.max(1, parseInt(e.target.value) || 1)})}
+                      className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-right text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    />
+                  </div>
+                  <input
+                    type="range"
+                    min="1"
+                    max={24}
+                    step="1"
+                    value={config.cols}
+                    onChange={(e) => onConfigChange({...config, cols: parseInt(e.target.value)})}
+                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <label className="text-sm font-medium text-slate-300">Linhas (Y)</label>
+                    <input 
+                      type="number" 
+                      min="1" 
+                      max={Math.max(1, image.originalHeight)}
+                      value={config.rows}
+                      onChange={(e) => onConfigChange({...config, rows: Math.max(1, parseInt(e.target.value) || 1)})}
+                      className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-right text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    />
+                  </div>
+                  <input
+                    type="range"
+                    min="1"
+                    max={24}
+                    step="1"
+                    value={config.rows}
+                    onChange={(e) => onConfigChange({...config, rows: parseInt(e.target.value)})}
+                    className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Largura da Célula</label>
+                    <input 
+                      type="number"
+                      min="1"
+                      value={config.cellWidth}
+                      onChange={(e) => onConfigChange({ ...config, cellWidth: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Altura da Célula</label>
+                    <input 
+                      type="number"
+                      min="1"
+                      value={config.cellHeight}
+                      onChange={(e) => onConfigChange({ ...config, cellHeight: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    />
+                  </div>
+                </div>
+                <p className="text-[10px] text-slate-500 text-center">
+                  Cabem {gridLayout.cols} x {gridLayout.rows} células.
+                </p>
               </div>
-              <input
-                type="range"
-                min="1"
-                max={24}
-                step="1"
-                value={config.rows}
-                onChange={(e) => onConfigChange({...config, rows: parseInt(e.target.value)})}
-                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
-              />
+            )}
+
+            {/* Margin & Gutter */}
+            <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 space-y-2">
+              <span className="text-sm text-slate-200 font-medium block">Margem e Espaçamento (px)</span>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Margem X</label>
+                  <input 
+                    type="number"
+                    min="0"
+                    value={config.offsetX}
+                    onChange={(e) => onConfigChange({ ...config, offsetX: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Margem Y</label>
+                  <input 
+                    type="number"
+                    min="0"
+                    value={config.offsetY}
+                    onChange={(e) => onConfigChange({ ...config, offsetY: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Espaço X</label>
+                  <input 
+                    type="number"
+                    min="0"
+                    value={config.spacingX}
+                    onChange={(e) => onConfigChange({ ...config, spacingX: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Espaço Y</label>
+                  <input 
+                    type="number"
+                    min="0"
+                    value={config.spacingY}
+                    onChange={(e) => onConfigChange({ ...config, spacingY: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Skip Empty Cells */}
+            <div className="flex items-center justify-between p-3 bg-slate-900 rounded-lg border border-slate-700 hover:border-slate-600 transition-colors">
+                <div className="flex flex-col">
+                    <span className="text-sm text-slate-200 font-medium">Pular Células Vazias</span>
+                    <span className="text-[10px] text-slate-500">
+                      {config.skipEmptyCells
+                        ? `${Math.max(0, gridLayout.rows * gridLayout.cols - totalFrames)} célula(s) ignorada(s), IDs mantidos`
+                        : 'Ignora células transparentes ou só com a cor de fundo'}
+                    </span>
+                </div>
+                <button
+                    onClick={() => onConfigChange({ ...config, skipEmptyCells: !config.skipEmptyCells })}
+                    className={`w-10 h-5 rounded-full relative transition-colors duration-200 ${config.skipEmptyCells ? 'bg-indigo-600' : 'bg-slate-700'}`}
+                >
+                    <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform duration-200 shadow-sm ${config.skipEmptyCells ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
             </div>
           </div>
         )}
@@ -309,23 +602,243 @@ const Controls: React.FC<ControlsProps> = ({
                 </div>
               </div>
             </div>
+
+            {/* Background Keying */}
+            <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 space-y-3">
+                <div>
+                    <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Separar Sprites Por</label>
+                    <div className="grid grid-cols-2 gap-1 bg-slate-800 p-1 rounded">
+                        <button
+                            onClick={() => onConfigChange({ ...config, detectionKey: 'alpha' })}
+                            className={`py-1 text-xs rounded transition-colors ${config.detectionKey === 'alpha' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                            Transparência
+                        </button>
+                        <button
+                            onClick={() => onConfigChange({ ...config, detectionKey: 'color' })}
+                            className={`py-1 text-xs rounded transition-colors ${config.detectionKey === 'color' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                            Cor de Fundo
+                        </button>
+                    </div>
+                </div>
+
+                {config.detectionKey === 'color' && (
+                    <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-200">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="color"
+                                value={config.detectionColor ? colorToHex(config.detectionColor) : '#000000'}
+                                onChange={(e) => onConfigChange({ ...config, detectionColor: hexToColor(e.target.value) })}
+                                className="w-8 h-8 bg-transparent border border-slate-600 rounded cursor-pointer"
+                            />
+                            <button
+                                onClick={() => onConfigChange({ ...config, detectionColor: null })}
+                                className={`flex-1 text-xs py-1.5 rounded border transition-colors ${config.detectionColor === null ? 'border-indigo-500 text-indigo-300 bg-indigo-500/10' : 'border-slate-600 text-slate-400 hover:text-slate-200'}`}
+                            >
+                                Automática (pixel 0,0)
+                            </button>
+                        </div>
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-[10px] uppercase text-slate-500 font-bold">Tolerância</label>
+                                <span className="text-xs text-slate-300 font-mono">{config.detectionTolerance}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="0"
+                                max="255"
+                                step="1"
+                                value={config.detectionTolerance}
+                                onChange={(e) => onConfigChange({ ...config, detectionTolerance: parseInt(e.target.value) })}
+                                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                            />
+                        </div>
+                        <p className="text-[10px] text-slate-500">Ative "Remover Cor" para também apagar o fundo dos frames.</p>
+                    </div>
+                )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-slate-300">Distância de Junção (px)</label>
+                <input 
+                  type="number" 
+                  min="0" 
+                  value={config.mergeDistance}
+                  onChange={(e) => onConfigChange({...config, mergeDistance: Math.max(0, parseInt(e.target.value) || 0)})}
+                  className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-right text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </div>
+              <input
+                type="range"
+                min="0"
+                max={64}
+                step="1"
+                value={config.mergeDistance}
+                onChange={(e) => onConfigChange({...config, mergeDistance: parseInt(e.target.value)})}
+                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              />
+              <p className="text-[10px] text-slate-500">Une ilhas separadas por até esta distância (ex: espada solta do personagem).</p>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-slate-900 rounded-lg border border-slate-700 hover:border-slate-600 transition-colors">
+                <div className="flex flex-col">
+                    <span className="text-sm text-slate-200 font-medium">Unir Caixas Sobrepostas</span>
+                    <span className="text-[10px] text-slate-500">Junta caixas que se sobrepõem</span>
+                </div>
+                <button
+                    onClick={() => onConfigChange({ ...config, mergeOverlapping: !config.mergeOverlapping })}
+                    className={`w-10 h-5 rounded-full relative transition-colors duration-200 ${config.mergeOverlapping ? 'bg-indigo-600' : 'bg-slate-700'}`}
+                >
+                    <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform duration-200 shadow-sm ${config.mergeOverlapping ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
+            </div>
+
+            {/* Detection Tuning */}
+            <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 space-y-3">
+                <div className="flex items-center gap-2.5">
+                    <SlidersHorizontal className="w-4 h-4 text-slate-400" />
+                    <div className="flex flex-col">
+                        <span className="text-sm text-slate-200 font-medium">Ajustes da Detecção</span>
+                        <span className="text-[10px] text-slate-500">Filtra poeira e controla como as ilhas são lidas</span>
+                    </div>
+                </div>
+
+                <div>
+                    <div className="flex justify-between items-center mb-1">
+                        <label className="text-[10px] uppercase text-slate-500 font-bold">Limite de Alfa</label>
+                        <span className="text-xs text-slate-300 font-mono">{config.alphaThreshold}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0"
+                        max="254"
+                        step="1"
+                        value={config.alphaThreshold}
+                        onChange={(e) => onConfigChange({ ...config, alphaThreshold: parseInt(e.target.value) })}
+                        className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                </div>
+
+                <div>
+                    <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Conectividade</label>
+                    <div className="grid grid-cols-2 gap-1 bg-slate-800 p-1 rounded">
+                        {([4, 8] as const).map(value => (
+                            <button
+                                key={value}
+                                onClick={() => onConfigChange({ ...config, connectivity: value })}
+                                className={`py-1 text-xs rounded transition-colors ${config.connectivity === value ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                            >
+                                {value === 4 ? '4 (Lados)' : '8 (Com Diagonais)'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                    <div>
+                        <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Área Mín.</label>
+                        <input 
+                            type="number"
+                            min="0"
+                            value={config.minIslandArea}
+                            onChange={(e) => onConfigChange({ ...config, minIslandArea: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Lado Mín.</label>
+                        <input 
+                            type="number"
+                            min="0"
+                            value={config.minIslandSize}
+                            onChange={(e) => onConfigChange({ ...config, minIslandSize: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">Tol. Linha</label>
+                        <input 
+                            type="number"
+                            min="0"
+                            value={config.rowTolerance}
+                            onChange={(e) => onConfigChange({ ...config, rowTolerance: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                    </div>
+                </div>
+                <p className="text-[10px] text-slate-500">Área em pixels sólidos; lado e tolerância em px.</p>
+            </div>
+
+            {/* Contour Tracing */}
+            <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 hover:border-slate-600 transition-colors space-y-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex flex-col">
+                        <span className="text-sm text-slate-200 font-medium">Traçar Contornos</span>
+                        <span className="text-[10px] text-slate-500">Recorta pelo polígono e exporta como colisão (Unity)</span>
+                    </div>
+                    <button
+                        onClick={() => onConfigChange({ ...config, traceContours: !config.traceContours })}
+                        className={`w-10 h-5 rounded-full relative transition-colors duration-200 ${config.traceContours ? 'bg-indigo-600' : 'bg-slate-700'}`}
+                    >
+                        <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform duration-200 shadow-sm ${config.traceContours ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                </div>
+
+                {config.traceContours && (
+                    <div className="animate-in fade-in slide-in-from-top-2 duration-200">
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="text-[10px] uppercase text-slate-500 font-bold">Simplificação (px)</label>
+                            <span className="text-xs text-slate-300 font-mono">{config.contourTolerance}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="10"
+                            step="0.5"
+                            value={config.contourTolerance}
+                            onChange={(e) => onConfigChange({ ...config, contourTolerance: parseFloat(e.target.value) })}
+                            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                        />
+                    </div>
+                )}
+            </div>
+
              <p className="text-xs text-slate-500 italic text-center">
-              * A detecção roda automaticamente.
+              * A detecção roda automaticamente. Contornos amarelos mostram as ilhas originais.
             </p>
           </div>
         )}
 
+        {config.mode !== 'manual' && (
+          <button
+            onClick={onConvertToEditable}
+            disabled={isProcessing || processedFrames.length === 0}
+            className="w-full flex items-center justify-center gap-2 py-2 px-3 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/30 rounded-lg transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <SquarePen className="w-4 h-4" />
+            Converter para Editável
+          </button>
+        )}
+
         {config.mode === 'manual' && (
           <div className="space-y-4 animate-in fade-in duration-300">
             <div className="bg-indigo-500/10 border border-indigo-500/20 p-4 rounded-lg">
               <div className="flex items-start gap-3">
                 <Lasso className="w-5 h-5 text-indigo-400 mt-0.5" />
                 <div>
-                  <h4 className="text-sm font-semibold text-indigo-300">Laço (Desenho Livre)</h4>
+                  <h4 className="text-sm font-semibold text-indigo-300">Seleção Manual</h4>
                   <ul className="text-xs text-indigo-200/70 mt-1 list-disc pl-4 space-y-1">
-                    <li>Desenhe livremente ao redor do personagem.</li>
-                    <li>Ao soltar, criaremos a caixa automaticamente.</li>
-                    <li>Clique com botão direito para remover.</li>
+                    <li>Laço: desenhe livremente ao redor do personagem.</li>
+                    <li>Polígono: clique para cada vértice; clique no primeiro, duplo clique ou Enter fecham.</li>
+                    <li>Vértices: arraste os pontos, puxe os pontos do meio para inserir, Alt+clique remove.</li>
+                    <li>Retângulo: arraste para criar uma caixa precisa.</li>
+                    <li>Selecionar: mova a caixa ou ajuste pelas alças; setas movem 1px (Shift: 10px).</li>
+                    <li>As caixas encaixam nos pixels, na grade e nas bordas dos sprites vizinhos.</li>
+                    <li>Shift+clique seleciona várias caixas para unir; Dividir corta uma caixa por uma linha.</li>
+                    <li>Delete, botão direito, borracha da caneta ou toque longo removem a caixa.</li>
+                    <li>No toque: dois dedos dão zoom e movem a imagem.</li>
                   </ul>
                 </div>
               </div>
@@ -342,26 +855,11 @@ const Controls: React.FC<ControlsProps> = ({
         )}
       </div>
 
-      <div className="p-6 border-t border-slate-700 bg-slate-800/50 mt-auto">
-        <button
-          onClick={handleDownload}
-          disabled={isZipping || isProcessing || processedFrames.length === 0}
-          className={`w-full flex items-center justify-center gap-2 py-3 px-4 rounded-lg font-semibold text-white transition-all shadow-lg
-            ${(isZipping || isProcessing) 
-              ? 'bg-slate-600 cursor-not-allowed opacity-75' 
-              : 'bg-indigo-600 hover:bg-indigo-500 hover:shadow-indigo-500/20 active:transform active:scale-95'}
-          `}
-        >
-          {isZipping ? (
-            <span className="animate-pulse">Gerando ZIP...</span>
-          ) : (
-            <>
-              <Download className="w-5 h-5" />
-              Baixar Frames (.zip)
-            </>
-          )}
-        </button>
-      </div>
+      <ExportPanel
+        image={image}
+        processedFrames={processedFrames}
+        isProcessing={isProcessing}
+      />
     </div>
   );
 };
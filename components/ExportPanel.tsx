@@ -0,0 +1,624 @@
+import React from 'react';
+import { Download, FolderTree, Package, Settings2 } from 'lucide-react';
+import { UploadedImage, ProcessedFrame, AtlasOptions, AnimationOptions } from '../types';
+import JSZip from 'jszip';
+import { packAtlas } from '../utils/atlasPacker';
+import { AtlasJsonLayout, toLibGdxAtlas, toStarlingXml, toTexturePackerJson } from '../utils/atlasFormats';
+import { dataUrlToBase64, dataUrlToBytes, downloadBlob, getBaseName } from '../utils/exportUtils';
+import { DEFAULT_NAMING, FolderLayout, NAMING_TOKENS, NamingOptions, buildFrameFileNames } from '../utils/fileNaming';
+import { framesToGif } from '../utils/gifEncoder';
+import { framesToApng } from '../utils/apngEncoder';
+import { framesToWebp } from '../utils/webpEncoder';
+import { GodotOptions, getSheetFileName, toGodotSpriteFrames, toUnityMeta } from '../utils/engineExport';
+import { toAsepriteJson } from '../utils/aseprite';
+import { CssSpriteOptions, buildCssSprite } from '../utils/cssSprite';
+import { GridSheetOptions, SheetLayout, composeGridSheet } from '../utils/sheetComposer';
+
+interface ExportPanelProps {
+  image: UploadedImage;
+  processedFrames: ProcessedFrame[];
+  isProcessing: boolean;
+}
+
+type ExportFormat = 'atlas' | 'libgdx' | 'starling' | 'gif' | 'apng' | 'webp' | 'godot' | 'unity' | 'aseprite' | 'css' | 'sheet';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  atlas: 'Atlas de Textura (.png + .json)',
+  libgdx: 'LibGDX TextureAtlas (.atlas)',
+  starling: 'Starling/Sparrow XML (.xml)',
+  gif: 'GIF Animado (.gif)',
+  apng: 'APNG Animado (.png)',
+  webp: 'WebP Animado (.webp)',
+  godot: 'Godot 4 SpriteFrames (.tres)',
+  unity: 'Unity Sprite Multiple (.meta)',
+  aseprite: 'Aseprite JSON (.json)',
+  css: 'CSS Sprites (.png + .css)',
+  sheet: 'Folha Uniforme / Faixa (.png)'
+};
+
+const ATLAS_SIZES = [256, 512, 1024, 2048, 4096, 8192];
+
+// Entries shown in the file list preview before it gets truncated
+const NAME_PREVIEW_LIMIT = 50;
+
+interface OptionToggleProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const OptionToggle: React.FC<OptionToggleProps> = ({ label, checked, onChange }) => (
+  <div className="flex items-center justify-between">
+    <span className="text-xs text-slate-300">{label}</span>
+    <button
+      onClick={() => onChange(!checked)}
+      className={`w-8 h-4 rounded-full relative transition-colors duration-200 ${checked ? 'bg-indigo-600' : 'bg-slate-700'}`}
+    >
+      <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform duration-200 shadow-sm ${checked ? 'translate-x-4' : 'translate-x-0'}`} />
+    </button>
+  </div>
+);
+
+const inputClass = 'w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+const labelClass = 'text-[10px] uppercase text-slate-500 font-bold mb-1 block';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ image, processedFrames, isProcessing }) => {
+  const [isZipping, setIsZipping] = React.useState(false);
+  const [isExporting, setIsExporting] = React.useState(false);
+  const [exportFormat, setExportFormat] = React.useState<ExportFormat>('atlas');
+  const [showOptions, setShowOptions] = React.useState(false);
+  const [showNaming, setShowNaming] = React.useState(false);
+  const [naming, setNaming] = React.useState<NamingOptions>(DEFAULT_NAMING);
+
+  // Atlas options
+  const [atlasOptions, setAtlasOptions] = React.useState<AtlasOptions>({
+    maxSize: 2048,
+    powerOfTwo: true,
+    padding: 2,
+    extrude: 0,
+    trim: false
+  });
+  const [jsonLayout, setJsonLayout] = React.useState<AtlasJsonLayout>('hash');
+
+  // Animation options
+  const [animationOptions, setAnimationOptions] = React.useState<AnimationOptions>({ delay: 100, loopCount: 0 });
+
+  // Engine options
+  const [godotOptions, setGodotOptions] = React.useState<GodotOptions>({ resPath: 'res://', fps: 10 });
+
+  // CSS sprite options
+  const [cssOptions, setCssOptions] = React.useState<CssSpriteOptions>({
+    prefix: 'sprite',
+    padding: 2,
+    retina: true,
+    scss: false
+  });
+
+  // Uniform sheet options
+  const [sheetOptions, setSheetOptions] = React.useState<GridSheetOptions>({
+    layout: 'horizontal',
+    columns: 8,
+    spacing: 0,
+    margin: 0,
+    background: null
+  });
+
+  const baseName = getBaseName(image.file.name);
+  const isBusy = isZipping || isExporting || isProcessing;
+
+  // Every export uses the same resolved names as the ZIP entries
+  const fileNames = React.useMemo(
+    () => buildFrameFileNames(processedFrames, baseName, naming),
+    [processedFrames, baseName, naming]
+  );
+  const namedFrames = React.useMemo(
+    () => processedFrames.map((frame, i) => ({ ...frame, name: fileNames[i].path })),
+    [processedFrames, fileNames]
+  );
+
+  const handleDownload = async () => {
+    if (processedFrames.length === 0) return;
+
+    setIsZipping(true);
+    try {
+      const zip = new JSZip();
+
+      processedFrames.forEach((frame, i) => {
+        zip.file(`${fileNames[i].path}.png`, dataUrlToBase64(frame.dataUrl), { base64: true });
+      });
+
+      const content = await zip.generateAsync({ type: 'blob' });
+      downloadBlob(content, `${baseName}_frames.zip`);
+    } catch (error) {
+      console.error("Failed to zip files", error);
+      alert("Erro ao gerar o arquivo ZIP.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  /**
+   * Packs the frames and writes the page images plus the data file(s) of the chosen format.
+   */
+  const exportAtlas = async () => {
+    const pages = await packAtlas(namedFrames, atlasOptions);
+    const pageNames = pages.map((_, i) => pages.length > 1 ? `${baseName}_atlas_${i}` : `${baseName}_atlas`);
+    const zip = new JSZip();
+
+    pages.forEach((page, i) => {
+      const imageName = `${pageNames[i]}.png`;
+      zip.file(imageName, dataUrlToBase64(page.dataUrl), { base64: true });
+      if (exportFormat === 'atlas') {
+        zip.file(`${pageNames[i]}.json`, toTexturePackerJson(page, imageName, jsonLayout));
+      } else if (exportFormat === 'starling') {
+        zip.file(`${pageNames[i]}.xml`, toStarlingXml(page, imageName));
+      }
+    });
+    if (exportFormat === 'libgdx') {
+      zip.file(`${baseName}.atlas`, toLibGdxAtlas(pages, pageNames.map(name => `${name}.png`)));
+    }
+
+    const content = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(content, `${baseName}_${exportFormat}.zip`);
+  };
+
+  const exportGif = async () => {
+    const blob = await framesToGif(namedFrames, animationOptions);
+    downloadBlob(blob, `${baseName}.gif`);
+  };
+
+  const exportApng = async () => {
+    const blob = await framesToApng(namedFrames, animationOptions);
+    downloadBlob(blob, `${baseName}_anim.png`);
+  };
+
+  const exportWebp = async () => {
+    const blob = await framesToWebp(namedFrames, animationOptions);
+    downloadBlob(blob, `${baseName}.webp`);
+  };
+
+  /**
+   * Engine exports reference regions of the original sheet, so it ships inside the ZIP.
+   */
+  const zipWithSheet = async (files: Record<string, string>, zipName: string) => {
+    const zip = new JSZip();
+    zip.file(getSheetFileName(image), await (await fetch(image.src)).blob()); // Data URL, or object URL once edited
+    Object.entries(files).forEach(([name, content]) => zip.file(name, content));
+
+    const content = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(content, zipName);
+  };
+
+  const exportGodot = async () => {
+    const tres = toGodotSpriteFrames(namedFrames, getSheetFileName(image), godotOptions);
+    await zipWithSheet({ [`${baseName}.tres`]: tres }, `${baseName}_godot.zip`);
+  };
+
+  const exportUnity = async () => {
+    const meta = toUnityMeta(namedFrames, image);
+    await zipWithSheet({ [`${getSheetFileName(image)}.meta`]: meta }, `${baseName}_unity.zip`);
+  };
+
+  const exportAseprite = async () => {
+    const json = toAsepriteJson(namedFrames, image, getSheetFileName(image), animationOptions.delay);
+    await zipWithSheet({ [`${baseName}.json`]: json }, `${baseName}_aseprite.zip`);
+  };
+
+  const exportCss = async () => {
+    const files = await buildCssSprite(namedFrames, baseName, cssOptions);
+    const zip = new JSZip();
+    files.forEach(file => zip.file(file.name, file.data, { base64: file.base64 }));
+
+    const content = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(content, `${baseName}_css.zip`);
+  };
+
+  const exportSheet = async () => {
+    const dataUrl = await composeGridSheet(namedFrames, sheetOptions);
+    downloadBlob(new Blob([dataUrlToBytes(dataUrl)], { type: 'image/png' }), `${baseName}_sheet.png`);
+  };
+
+  const handleExport = async () => {
+    if (processedFrames.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      if (exportFormat === 'atlas' || exportFormat === 'libgdx' || exportFormat === 'starling') await exportAtlas();
+      else if (exportFormat === 'gif') await exportGif();
+      else if (exportFormat === 'apng') await exportApng();
+      else if (exportFormat === 'webp') await exportWebp();
+      else if (exportFormat === 'godot') await exportGodot();
+      else if (exportFormat === 'unity') await exportUnity();
+      else if (exportFormat === 'aseprite') await exportAseprite();
+      else if (exportFormat === 'css') await exportCss();
+      else if (exportFormat === 'sheet') await exportSheet();
+    } catch (error) {
+      console.error("Failed to export", error);
+      alert(`Erro ao exportar: ${FORMAT_LABELS[exportFormat]}.`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderOptions = () => {
+    if (exportFormat === 'atlas' || exportFormat === 'libgdx' || exportFormat === 'starling') {
+      return (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Tamanho Máx.</label>
+              <select
+                value={atlasOptions.maxSize}
+                onChange={(e) => setAtlasOptions({ ...atlasOptions, maxSize: parseInt(e.target.value) })}
+                className={inputClass}
+              >
+                {ATLAS_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+              </select>
+            </div>
+            {exportFormat === 'atlas' && (
+              <div>
+                <label className={labelClass}>Layout JSON</label>
+                <select
+                  value={jsonLayout}
+                  onChange={(e) => setJsonLayout(e.target.value as AtlasJsonLayout)}
+                  className={inputClass}
+                >
+                  <option value="hash">Hash</option>
+                  <option value="array">Array</option>
+                </select>
+              </div>
+            )}
+            <div>
+              <label className={labelClass}>Padding (px)</label>
+              <input
+                type="number"
+                min="0"
+                value={atlasOptions.padding}
+                onChange={(e) => setAtlasOptions({ ...atlasOptions, padding: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Extrusão (px)</label>
+              <input
+                type="number"
+                min="0"
+                value={atlasOptions.extrude}
+                onChange={(e) => setAtlasOptions({ ...atlasOptions, extrude: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <OptionToggle
+            label="Potência de 2"
+            checked={atlasOptions.powerOfTwo}
+            onChange={(powerOfTwo) => setAtlasOptions({ ...atlasOptions, powerOfTwo })}
+          />
+          <OptionToggle
+            label="Recortar transparência (trim)"
+            checked={atlasOptions.trim}
+            onChange={(trim) => setAtlasOptions({ ...atlasOptions, trim })}
+          />
+        </div>
+      );
+    }
+    if (exportFormat === 'gif' || exportFormat === 'apng' || exportFormat === 'webp') {
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Atraso (ms)</label>
+            <input
+              type="number"
+              min="10"
+              step="10"
+              value={animationOptions.delay}
+              onChange={(e) => setAnimationOptions({ ...animationOptions, delay: Math.max(10, parseInt(e.target.value) || 10) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Repetições</label>
+            <input
+              type="number"
+              min="0"
+              value={animationOptions.loopCount}
+              onChange={(e) => setAnimationOptions({ ...animationOptions, loopCount: Math.max(0, parseInt(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </div>
+          <p className="col-span-2 text-[10px] text-slate-500">
+            Repetições: 0 = infinito.
+            {exportFormat === 'gif' && ' GIF só tem transparência de 1 bit; use APNG ou WebP para bordas suaves.'}
+            {exportFormat === 'webp' && ' Requer um navegador com codificação WebP (Chrome, Edge ou Firefox).'}
+          </p>
+        </div>
+      );
+    }
+    if (exportFormat === 'godot') {
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Pasta (res://)</label>
+            <input
+              type="text"
+              value={godotOptions.resPath}
+              onChange={(e) => setGodotOptions({ ...godotOptions, resPath: e.target.value || 'res://' })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Velocidade (FPS)</label>
+            <input
+              type="number"
+              min="1"
+              value={godotOptions.fps}
+              onChange={(e) => setGodotOptions({ ...godotOptions, fps: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={inputClass}
+            />
+          </div>
+          <p className="col-span-2 text-[10px] text-slate-500">Copie a imagem e o .tres para a mesma pasta do projeto.</p>
+        </div>
+      );
+    }
+    if (exportFormat === 'unity') {
+      return (
+        <p className="text-[10px] text-slate-500">
+          Copie a imagem e o .meta juntos para a pasta Assets. Os recortes aparecem no Sprite Editor.
+        </p>
+      );
+    }
+    if (exportFormat === 'aseprite') {
+      return (
+        <div className="space-y-2">
+          <div>
+            <label className={labelClass}>Duração Padrão (ms)</label>
+            <input
+              type="number"
+              min="10"
+              step="10"
+              value={animationOptions.delay}
+              onChange={(e) => setAnimationOptions({ ...animationOptions, delay: Math.max(10, parseInt(e.target.value) || 10) })}
+              className={inputClass}
+            />
+          </div>
+          <p className="text-[10px] text-slate-500">Frames importados mantêm sua duração e tag originais.</p>
+        </div>
+      );
+    }
+    if (exportFormat === 'css') {
+      return (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Classe Base</label>
+              <input
+                type="text"
+                value={cssOptions.prefix}
+                onChange={(e) => setCssOptions({ ...cssOptions, prefix: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Padding (px)</label>
+              <input
+                type="number"
+                min="0"
+                value={cssOptions.padding}
+                onChange={(e) => setCssOptions({ ...cssOptions, padding: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <OptionToggle
+            label="Variante Retina (@2x)"
+            checked={cssOptions.retina}
+            onChange={(retina) => setCssOptions({ ...cssOptions, retina })}
+          />
+          <OptionToggle
+            label="Mapa SCSS"
+            checked={cssOptions.scss}
+            onChange={(scss) => setCssOptions({ ...cssOptions, scss })}
+          />
+          <p className="text-[10px] text-slate-500">Inclui uma página index.html de pré-visualização.</p>
+        </div>
+      );
+    }
+    if (exportFormat === 'sheet') {
+      return (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Disposição</label>
+              <select
+                value={sheetOptions.layout}
+                onChange={(e) => setSheetOptions({ ...sheetOptions, layout: e.target.value as SheetLayout })}
+                className={inputClass}
+              >
+                <option value="horizontal">Faixa horizontal</option>
+                <option value="vertical">Faixa vertical</option>
+                <option value="grid">Grade (N colunas)</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Colunas</label>
+              <input
+                type="number"
+                min="1"
+                disabled={sheetOptions.layout !== 'grid'}
+                value={sheetOptions.columns}
+                onChange={(e) => setSheetOptions({ ...sheetOptions, columns: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={`${inputClass} disabled:opacity-40`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Espaçamento (px)</label>
+              <input
+                type="number"
+                min="0"
+                value={sheetOptions.spacing}
+                onChange={(e) => setSheetOptions({ ...sheetOptions, spacing: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Margem (px)</label>
+              <input
+                type="number"
+                min="0"
+                value={sheetOptions.margin}
+                onChange={(e) => setSheetOptions({ ...sheetOptions, margin: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <OptionToggle
+            label="Fundo transparente"
+            checked={sheetOptions.background === null}
+            onChange={(transparent) => setSheetOptions({ ...sheetOptions, background: transparent ? null : '#ff00ff' })}
+          />
+          {sheetOptions.background !== null && (
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-300">Cor de fundo</span>
+              <input
+                type="color"
+                value={sheetOptions.background}
+                onChange={(e) => setSheetOptions({ ...sheetOptions, background: e.target.value })}
+                className="w-8 h-6 bg-transparent border border-slate-600 rounded cursor-pointer"
+              />
+            </div>
+          )}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="p-6 border-t border-slate-700 bg-slate-800/50 mt-auto space-y-3">
+      <div className="flex gap-2">
+        <button
+          onClick={handleDownload}
+          disabled={isBusy || processedFrames.length === 0}
+          className={`flex-1 flex items-center justify-center gap-2 py-3 px-4 rounded-lg font-semibold text-white transition-all shadow-lg
+            ${(isZipping || isProcessing)
+              ? 'bg-slate-600 cursor-not-allowed opacity-75'
+              : 'bg-indigo-600 hover:bg-indigo-500 hover:shadow-indigo-500/20 active:transform active:scale-95'}
+          `}
+        >
+          {isZipping ? (
+            <span className="animate-pulse">Gerando ZIP...</span>
+          ) : (
+            <>
+              <Download className="w-5 h-5" />
+              Baixar Frames (.zip)
+            </>
+          )}
+        </button>
+        <button
+          onClick={() => setShowNaming(!showNaming)}
+          className={`px-3 rounded-lg border transition-colors ${showNaming ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-300' : 'bg-slate-900 border-slate-600 text-slate-400 hover:text-slate-200'}`}
+          title="Nomes e pastas dos arquivos"
+        >
+          <FolderTree className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showNaming && (
+        <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-200">
+          <div>
+            <label className={labelClass}>Modelo de Nome</label>
+            <input
+              type="text"
+              value={naming.template}
+              onChange={(e) => setNaming({ ...naming, template: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+            <div className="flex flex-wrap gap-1 mt-2">
+              {NAMING_TOKENS.map(token => (
+                <button
+                  key={token}
+                  onClick={() => setNaming({ ...naming, template: `${naming.template}{${token}}` })}
+                  className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-400 hover:text-indigo-300 hover:border-indigo-500/50 transition-colors"
+                >
+                  {`{${token}}`}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500 mt-1">Use {'{index:03}'} para preencher com zeros.</p>
+          </div>
+          <div>
+            <label className={labelClass}>Pastas</label>
+            <select
+              value={naming.folderLayout}
+              onChange={(e) => setNaming({ ...naming, folderLayout: e.target.value as FolderLayout })}
+              className={inputClass}
+            >
+              <option value="flat">Sem pastas</option>
+              <option value="row">Uma pasta por linha</option>
+              <option value="tag">Uma pasta por tag</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Prévia ({fileNames.length} arquivos)</label>
+            <ul className="max-h-28 overflow-y-auto custom-scrollbar bg-slate-950 rounded border border-slate-800 p-2 text-[11px] font-mono text-slate-400 space-y-0.5">
+              {fileNames.slice(0, NAME_PREVIEW_LIMIT).map(file => (
+                <li key={file.path} className="truncate">
+                  <span className="text-slate-600">{file.folder}</span>{file.name}.png
+                </li>
+              ))}
+              {fileNames.length > NAME_PREVIEW_LIMIT && (
+                <li className="text-slate-600 italic">+{fileNames.length - NAME_PREVIEW_LIMIT} mais...</li>
+              )}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Other export targets */}
+      <div className="flex gap-2">
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-lg px-2 py-2 text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setShowOptions(!showOptions)}
+          className={`px-2.5 rounded-lg border transition-colors ${showOptions ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-300' : 'bg-slate-900 border-slate-600 text-slate-400 hover:text-slate-200'}`}
+          title="Opções de exportação"
+        >
+          <Settings2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={isBusy || processedFrames.length === 0}
+          className={`flex items-center gap-1.5 px-3 rounded-lg text-xs font-semibold transition-colors
+            ${isBusy
+              ? 'bg-slate-700 text-slate-400 cursor-not-allowed'
+              : 'bg-slate-700 hover:bg-slate-600 text-slate-100'}
+          `}
+        >
+          {isExporting ? (
+            <span className="animate-pulse">Exportando...</span>
+          ) : (
+            <>
+              <Package className="w-4 h-4" />
+              Exportar
+            </>
+          )}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="max-h-56 overflow-y-auto custom-scrollbar p-3 bg-slate-900 rounded-lg border border-slate-700 animate-in fade-in slide-in-from-bottom-2 duration-200">
+          {renderOptions()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -5,9 +5,10 @@ import { Image as ImageIcon, Copy, Check, X, ZoomIn } from 'lucide-react';
 interface FramePreviewProps {
   frames: ProcessedFrame[];
   isLoading: boolean;
+  progress?: number; // 0-1 progress of the running job
 }
 
-const FramePreview: React.FC<FramePreviewProps> = ({ frames, isLoading }) => {
+const FramePreview: React.FC<FramePreviewProps> = ({ frames, isLoading, progress = 0 }) => {
   const [selectedFrameId, setSelectedFrameId] = useState<number | null>(null);
   const [copied, setCopied] = useState(false);
 
@@ -54,8 +55,12 @@ const FramePreview: React.FC<FramePreviewProps> = ({ frames, isLoading }) => {
       {/* Grid */}
       <div className="flex-1 p-4 overflow-y-auto custom-scrollbar">
         {isLoading ? (
-          <div className="flex items-center justify-center h-full">
+          <div className="flex flex-col items-center justify-center h-full gap-4">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+            <div className="w-48 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all duration-150" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <span className="text-xs text-slate-400 font-mono">{Math.round(progress * 100)}%</span>
           </div>
         ) : (
           <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 gap-3 pb-4">
@@ -128,6 +133,18 @@ const FramePreview: React.FC<FramePreviewProps> = ({ frames, isLoading }) => {
                      <span className="font-mono text-indigo-300">{selectedFrame.width}x{selectedFrame.height}</span>
                      <span className="text-slate-700">|</span>
                      <span>PNG</span>
+                     {selectedFrame.duration !== undefined && (
+                       <>
+                         <span className="text-slate-700">|</span>
+                         <span>{selectedFrame.duration}ms</span>
+                       </>
+                     )}
+                     {selectedFrame.tag && (
+                       <>
+                         <span className="text-slate-700">|</span>
+                         <span className="text-emerald-300">{selectedFrame.tag}</span>
+                       </>
+                     )}
                    </div>
                 </div>
                 <button 
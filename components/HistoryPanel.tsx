@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Undo2, Redo2, History as HistoryIcon } from 'lucide-react';
+import { EditorSnapshot } from '../types';
+import { History, canUndo, canRedo, getHistoryEntries } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: History<EditorSnapshot>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const entries = getHistoryEntries(history);
+  const presentIndex = history.past.length;
+
+  const buttonClass = 'p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400';
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button onClick={onUndo} disabled={!canUndo(history)} title="Desfazer (Ctrl+Z)" className={buttonClass}>
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button onClick={onRedo} disabled={!canRedo(history)} title="Refazer (Ctrl+Shift+Z)" className={buttonClass}>
+        <Redo2 className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Histórico"
+        className={`${buttonClass} ${isOpen ? 'bg-slate-800 text-white' : ''}`}
+      >
+        <HistoryIcon className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-slate-800 border border-slate-700 rounded-xl shadow-xl p-2 z-50">
+          <div className="flex items-center justify-between px-2 pb-2 mb-1 border-b border-slate-700">
+            <span className="text-xs font-semibold text-slate-300 uppercase tracking-wider">Histórico</span>
+            <span className="text-[10px] text-slate-500">{entries.length} passos</span>
+          </div>
+          <ul className="max-h-72 overflow-y-auto custom-scrollbar space-y-0.5">
+            {entries.map((entry, i) => (
+              <li key={`${i}-${entry.timestamp}`}>
+                <button
+                  onClick={() => onJump(i)}
+                  className={`w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded text-left text-xs transition-colors
+                    ${i === presentIndex
+                      ? 'bg-indigo-600 text-white'
+                      : i > presentIndex
+                        ? 'text-slate-500 italic hover:bg-slate-700'
+                        : 'text-slate-300 hover:bg-slate-700'}`}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className={`text-[10px] shrink-0 ${i === presentIndex ? 'text-indigo-200' : 'text-slate-500'}`}>
+                    {formatTime(entry.timestamp)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
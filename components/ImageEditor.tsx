@@ -1,15 +1,61 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Lasso, Square, Pentagon, Spline, MousePointer2, Slice, Combine, Trash2, Magnet, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+import Minimap from './Minimap';
 import { UploadedImage, Rect, Color } from '../types';
+import {
+  ResizeHandle,
+  RESIZE_HANDLES,
+  SnapOptions,
+  getHandlePoint,
+  hitTestHandle,
+  hitTestRect,
+  getSnapEdges,
+  moveRect,
+  resizeRect,
+  rectFromPoints,
+  rectFromPath,
+  hitTestVertex,
+  getEdgeMidpoints,
+  moveVertex,
+  insertVertex,
+  removeVertex,
+  isSameRect,
+  snapCoordinate,
+  snapSplitLine,
+  splitRect
+} from '../utils/rectEditing';
+import { simplifyPolygon } from '../utils/contour';
+import {
+  Size,
+  ViewState,
+  ViewTransform,
+  clampView,
+  createFitView,
+  getViewTransform,
+  getVisibleRegion,
+  screenToImage,
+  zoomViewAt,
+  anchorViewAt
+} from '../utils/viewport';
 
 interface ImageEditorProps {
   image: UploadedImage;
   rects: Rect[];
+  islandRects?: Rect[]; // Unmerged smart-detection islands, drawn as a faint reference
+  skippedRects?: Rect[]; // Grid cells dropped as empty
   mode: 'grid' | 'smart' | 'manual';
   isWandMode: boolean;
   onAddManualRect?: (rect: Rect) => void;
   onRemoveManualRect?: (rectIndex: number) => void;
+  onUpdateManualRect?: (rectIndex: number, rect: Rect) => void;
+  onRemoveManualRects?: (rectIndexes: number[]) => void;
+  onMergeManualRects?: (rectIndexes: number[]) => void;
+  onSplitManualRect?: (rectIndex: number, parts: Rect[]) => void;
+  snapRects?: Rect[]; // Detected sprite bounds that manual rects snap to
   onWandSelect?: (x: number, y: number) => void;
   selectionMask?: Uint8Array | null;
+  isEyedropperMode?: boolean;
+  onPickColor?: (color: Color) => void;
 }
 
 interface Point {
@@ -17,90 +63,419 @@ interface Point {
   y: number;
 }
 
+type ManualTool = 'lasso' | 'polygon' | 'rect' | 'select' | 'vertices' | 'split';
+
+// A move, resize or vertex drag of the selected rect, previewed locally until the mouse is released
+interface DragState {
+  kind: 'move' | 'vertex' | ResizeHandle;
+  start: Point;
+  origin: Rect;
+  vertex?: number; // Path index being dragged, for 'vertex'
+}
+
+// Space-drag (or middle button) panning, in screen pixels
+interface PanState {
+  startX: number;
+  startY: number;
+  view: ViewState;
+}
+
+// Two-finger pinch: the image point under the fingers' midpoint follows it
+interface PinchState {
+  startDistance: number;
+  anchor: Point; // Image coordinates
+  view: ViewState;
+}
+
+const GRID_STEPS = [0, 4, 8, 16, 32];
+const SNAP_DISTANCE = 6; // Screen pixels
+const HANDLE_SIZE = 8; // Screen pixels
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+const LASSO_SIMPLIFY_TOLERANCE = 1.5; // Screen pixels of jitter dropped from freehand paths
+
+const MIN_VIEW_HEIGHT = 160;
+const MAX_VIEW_HEIGHT = 480;
+const WHEEL_ZOOM_FACTOR = 1.15;
+const BUTTON_ZOOM_FACTOR = 2;
+const PIXEL_GRID_MIN_SCALE = 8; // Screen pixels per image pixel before the pixel grid shows up
+const LONG_PRESS_MS = 550;
+const LONG_PRESS_SLOP = 8; // Screen pixels a finger may drift before a long press is abandoned
+const PEN_ERASER_BUTTON = 5;
+
+const HANDLE_CURSORS: Record<ResizeHandle, string> = {
+  nw: 'cursor-nwse-resize',
+  se: 'cursor-nwse-resize',
+  ne: 'cursor-nesw-resize',
+  sw: 'cursor-nesw-resize',
+  n: 'cursor-ns-resize',
+  s: 'cursor-ns-resize',
+  e: 'cursor-ew-resize',
+  w: 'cursor-ew-resize'
+};
+
 const ImageEditor: React.FC<ImageEditorProps> = ({ 
   image, 
   rects, 
+  islandRects = [],
+  skippedRects = [],
   mode,
   isWandMode,
   onAddManualRect,
   onRemoveManualRect,
+  onUpdateManualRect,
+  onRemoveManualRects,
+  onMergeManualRects,
+  onSplitManualRect,
   onWandSelect,
-  selectionMask
+  selectionMask,
+  isEyedropperMode = false,
+  onPickColor,
+  snapRects = []
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement | null>(null); // Store loaded image
+  const isPicking = isWandMode || isEyedropperMode; // Image clicks pick instead of editing rects
   
   // Drawing State
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentPath, setCurrentPath] = useState<Point[]>([]);
 
+  // Rect tool / selection State
+  const [tool, setTool] = useState<ManualTool>('lasso');
+  const [selectedIndexes, setSelectedIndexes] = useState<number[]>([]); // Shift+click adds to the selection
+  const [drawStart, setDrawStart] = useState<Point | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draftRect, setDraftRect] = useState<Rect | null>(null); // New rect being drawn or the edited one
+  const [hoverCursor, setHoverCursor] = useState<string | null>(null);
+  const [gridStep, setGridStep] = useState(8);
+  const [snapToEdges, setSnapToEdges] = useState(true);
+
+  // Zoom / pan State
+  const [imgSize, setImgSize] = useState<Size | null>(null);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [view, setView] = useState<ViewState>({ zoom: 1, centerX: 0, centerY: 0 });
+  const [isSpaceDown, setIsSpaceDown] = useState(false);
+  const [pan, setPan] = useState<PanState | null>(null);
+
+  // Touch State (refs: they change on every pointer event and never need a redraw)
+  const touchPointers = useRef(new Map<number, Point>()); // Screen positions of the fingers down
+  const pinchRef = useRef<PinchState | null>(null);
+  const longPressRef = useRef<{ timer: number; start: Point } | null>(null);
+  const lastPointerType = useRef('mouse');
+
+  // Fit the width of the column, within a sensible height range
+  const viewport: Size | null = imgSize && viewportWidth > 0
+    ? {
+        width: viewportWidth,
+        height: Math.round(Math.min(MAX_VIEW_HEIGHT, Math.max(MIN_VIEW_HEIGHT, imgSize.height * viewportWidth / imgSize.width)))
+      }
+    : null;
+
+  // Stable between renders so the minimap only repaints when the view actually moves
+  const visibleRegion = useMemo(
+    () => (imgSize && viewport ? getVisibleRegion(view, imgSize, viewport) : null),
+    [view, imgSize, viewport?.width, viewport?.height]
+  );
+
+  // Split tool State
+  const [splitLine, setSplitLine] = useState<{ start: Point; end: Point } | null>(null);
+
+  // Polygon tool State
+  const [polygonPoints, setPolygonPoints] = useState<Point[]>([]);
+  const [pointerPosition, setPointerPosition] = useState<Point | null>(null); // Preview of the next vertex
+
+  // Handles, drags and nudges work on a single selected rect
+  const selectedIndex = selectedIndexes.length === 1 ? selectedIndexes[0] : null;
+  const setSelectedIndex = (index: number | null) => setSelectedIndexes(index === null ? [] : [index]);
+  const selectedRect = mode === 'manual' && selectedIndex !== null ? rects[selectedIndex] ?? null : null;
+  const showsResizeHandles = tool === 'rect' || tool === 'select';
+  const editablePath = tool === 'vertices' && selectedRect?.path && selectedRect.path.length >= 3 ? selectedRect.path : null;
+
+  // Wand selection as a blue tint, built once per mask rather than on every redraw
+  const maskCanvas = useMemo(() => {
+    if (!selectionMask || !imgSize) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = imgSize.width;
+    canvas.height = imgSize.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const maskImageData = ctx.createImageData(imgSize.width, imgSize.height);
+    const data = maskImageData.data;
+    for (let i = 0; i < selectionMask.length; i++) {
+        if (selectionMask[i] === 1) {
+            const idx = i * 4;
+            // Tint blue: R=0, G=100, B=255, A=100
+            data[idx] = 0;
+            data[idx+1] = 100;
+            data[idx+2] = 255;
+            data[idx+3] = 100; // Semi-transparent
+        }
+    }
+    ctx.putImageData(maskImageData, 0, 0);
+    return canvas;
+  }, [selectionMask, imgSize?.width, imgSize?.height]);
+
   // Load Image once
   useEffect(() => {
     const img = new Image();
     img.src = image.src;
     img.onload = () => {
+      const previous = imgRef.current;
       imgRef.current = img;
+      // Pixel edits keep the sheet size, so only a new sheet resets the view
+      if (!previous || previous.width !== img.width || previous.height !== img.height) {
+        setImgSize({ width: img.width, height: img.height });
+        setView(createFitView(img));
+      }
       renderCanvas();
     };
   }, [image.src]);
 
+  // Track the column width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportWidth(container.clientWidth));
+    observer.observe(container);
+    setViewportWidth(container.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
   // Redraw when props change
   useEffect(() => {
     renderCanvas();
-  }, [rects, mode, isDrawing, currentPath, isWandMode, selectionMask]);
+  }, [rects, islandRects, skippedRects, mode, isDrawing, currentPath, isWandMode, maskCanvas, selectedIndexes, draftRect, drag, view, viewportWidth, imgSize, tool, polygonPoints, pointerPosition, splitLine]);
+
+  // Wheel zoom around the cursor; registered by hand because React's wheel listener is passive
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !imgSize || !viewport) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const bounds = canvas.getBoundingClientRect();
+      const point = { x: e.clientX - bounds.left, y: e.clientY - bounds.top };
+      const factor = e.deltaY < 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR;
+      setView(prev => zoomViewAt(prev, prev.zoom * factor, point, imgSize, viewport));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [imgSize, viewport?.width, viewport?.height]);
+
+  // Holding space turns any drag into panning
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault(); // Don't scroll the page
+      setIsSpaceDown(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceDown(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  // An unfinished polygon doesn't survive a tool or mode change
+  useEffect(() => {
+    setPolygonPoints([]);
+  }, [tool, mode, isPicking]);
+
+  // Polygon tool keys: Enter closes, Backspace drops the last vertex, Escape cancels
+  useEffect(() => {
+    if (polygonPoints.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        closePolygon(polygonPoints);
+      } else if (e.key === 'Backspace') {
+        e.preventDefault();
+        setPolygonPoints(prev => prev.slice(0, -1));
+      } else if (e.key === 'Escape') {
+        setPolygonPoints([]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [polygonPoints]);
+
+  // Drop the selection when its rects go away
+  useEffect(() => {
+    if (selectedIndexes.length === 0) return;
+    if (mode !== 'manual') setSelectedIndexes([]);
+    else if (selectedIndexes.some(i => i >= rects.length)) setSelectedIndexes(prev => prev.filter(i => i < rects.length));
+  }, [rects, mode, selectedIndexes]);
+
+  const deleteSelection = () => {
+    if (selectedIndexes.length > 1) onRemoveManualRects?.(selectedIndexes);
+    else if (selectedIndexes.length === 1) onRemoveManualRect?.(selectedIndexes[0]);
+    setSelectedIndexes([]);
+  };
+
+  const mergeSelection = () => {
+    if (selectedIndexes.length < 2 || !onMergeManualRects) return;
+    onMergeManualRects(selectedIndexes);
+    setSelectedIndex(Math.min(...selectedIndexes)); // The union takes the place of the first rect
+  };
+
+  // Arrow keys nudge the selected rect, Delete removes the selection
+  useEffect(() => {
+    if (mode !== 'manual' || selectedIndexes.length === 0 || isPicking || polygonPoints.length > 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const img = imgRef.current;
+      if (!img) return;
+
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      const offsets: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step]
+      };
+
+      if (offsets[e.key] && selectedRect && selectedIndex !== null) {
+        e.preventDefault();
+        const [dx, dy] = offsets[e.key];
+        onUpdateManualRect?.(selectedIndex, moveRect(selectedRect, dx, dy, img));
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelection();
+      } else if (e.key === 'Escape') {
+        setSelectedIndex(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [mode, selectedRect, selectedIndexes, isPicking, polygonPoints.length, onUpdateManualRect, onRemoveManualRect, onRemoveManualRects]);
+
+  const getTransform = (): ViewTransform =>
+    imgSize && viewport ? getViewTransform(view, imgSize, viewport) : { scale: 1, offsetX: 0, offsetY: 0 };
+
+  // Image pixels per screen pixel, so handles, lines and snapping feel the same at any zoom
+  const getScreenScale = () => 1 / getTransform().scale;
+
+  const zoomBy = (factor: number) => {
+    if (!imgSize || !viewport) return;
+    const center = { x: viewport.width / 2, y: viewport.height / 2 };
+    setView(prev => zoomViewAt(prev, prev.zoom * factor, center, imgSize, viewport));
+  };
+
+  const centerViewOn = (point: Point) => {
+    if (!imgSize || !viewport) return;
+    setView(prev => clampView({ ...prev, centerX: point.x, centerY: point.y }, imgSize, viewport));
+  };
+
+  const getSnapOptions = (excludeIndex: number | null): SnapOptions => {
+    const img = imgRef.current;
+    const neighbours = snapToEdges
+      ? [...rects.filter((_, i) => i !== excludeIndex), ...snapRects]
+      : [];
+    return {
+      gridStep,
+      ...getSnapEdges(neighbours, { width: img?.width ?? 0, height: img?.height ?? 0 }),
+      threshold: SNAP_DISTANCE * getScreenScale()
+    };
+  };
 
   const renderCanvas = () => {
     const canvas = canvasRef.current;
     const img = imgRef.current;
-    if (!canvas || !img || !containerRef.current) return;
+    if (!canvas || !img || !containerRef.current || !viewport) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Logic to fit image in container
-    canvas.width = img.width;
-    canvas.height = img.height;
+    // Backing store at device resolution; resizing reallocates it, so only when the size changes
+    const dpr = window.devicePixelRatio || 1;
+    const backingWidth = Math.round(viewport.width * dpr);
+    const backingHeight = Math.round(viewport.height * dpr);
+    if (canvas.width !== backingWidth) canvas.width = backingWidth;
+    if (canvas.height !== backingHeight) canvas.height = backingHeight;
+    const { scale, offsetX, offsetY } = getTransform();
+    const px = 1 / scale; // One screen pixel in image units
+    const dash = (...lengths: number[]) => lengths.map(length => length * px);
 
-    // Draw Image
+    // A kept backing store keeps its context state too, so start from a clean one
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.save();
+    // Everything below is drawn in image coordinates
+    ctx.setTransform(dpr * scale, 0, 0, dpr * scale, dpr * offsetX, dpr * offsetY);
+    ctx.imageSmoothingEnabled = scale < 1; // Keep pixel art crisp when zoomed in
+
+    // Draw Image
     ctx.drawImage(img, 0, 0);
 
-    // Draw Selection Mask (Blue Tint)
-    if (selectionMask) {
-        const maskImageData = ctx.createImageData(canvas.width, canvas.height);
-        const data = maskImageData.data;
-        for (let i = 0; i < selectionMask.length; i++) {
-            if (selectionMask[i] === 1) {
-                const idx = i * 4;
-                // Tint blue: R=0, G=100, B=255, A=100
-                data[idx] = 0;
-                data[idx+1] = 100;
-                data[idx+2] = 255;
-                data[idx+3] = 100; // Semi-transparent
-            }
-        }
-        
-        // Use a temporary canvas to draw the overlay so we don't overwrite image pixels incorrectly
-        // Actually putImageData replaces pixels. We want to overlay.
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = canvas.width;
-        tempCanvas.height = canvas.height;
-        const tempCtx = tempCanvas.getContext('2d');
-        if (tempCtx) {
-            tempCtx.putImageData(maskImageData, 0, 0);
-            ctx.save();
-            ctx.globalAlpha = 0.6; // Additional opacity control
-            ctx.drawImage(tempCanvas, 0, 0);
-            ctx.restore();
-        }
+    // Draw Selection Mask (Blue Tint) as an overlay; putImageData would replace the image pixels
+    if (maskCanvas) {
+        ctx.save();
+        ctx.globalAlpha = 0.6; // Additional opacity control
+        ctx.drawImage(maskCanvas, 0, 0);
+        ctx.restore();
+    }
+
+    // Pixel grid once single pixels are big enough to aim at
+    if (scale >= PIXEL_GRID_MIN_SCALE && visibleRegion) {
+      const visible = visibleRegion;
+      const left = Math.floor(visible.x);
+      const top = Math.floor(visible.y);
+      const right = Math.ceil(visible.x + visible.width);
+      const bottom = Math.ceil(visible.y + visible.height);
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+      ctx.lineWidth = px;
+      ctx.beginPath();
+      for (let x = left; x <= right; x++) {
+        ctx.moveTo(x, top);
+        ctx.lineTo(x, bottom);
+      }
+      for (let y = top; y <= bottom; y++) {
+        ctx.moveTo(left, y);
+        ctx.lineTo(right, y);
+      }
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Draw the raw islands behind the merged rects so merging can be tuned visually
+    if (islandRects.length > 0) {
+      ctx.save();
+      ctx.lineWidth = px;
+      ctx.strokeStyle = 'rgba(251, 191, 36, 0.8)'; // amber
+      ctx.setLineDash(dash(2, 2));
+      islandRects.forEach(rect => ctx.strokeRect(rect.x + px / 2, rect.y + px / 2, rect.width - px, rect.height - px));
+      ctx.restore();
     }
 
     // Draw Overlay Rects
-    ctx.lineWidth = 2;
+    ctx.lineWidth = 2 * px;
     
-    // Draw existing rects
-    rects.forEach((rect, i) => {
+    // Draw existing rects, with the edited one at its dragged position
+    const shownRects = drag && draftRect && selectedIndex !== null
+      ? rects.map((rect, i) => (i === selectedIndex ? draftRect : rect))
+      : rects;
+    shownRects.forEach((rect, i) => {
       // Different styles for different modes
       let strokeColor = '#ef4444'; // default red
       let fillColor = 'rgba(255, 255, 255, 0.1)';
@@ -134,7 +509,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
         // Also draw dashed bounding box for reference (lighter)
         ctx.save();
         ctx.globalAlpha = 0.5;
-        ctx.setLineDash([2, 4]);
+        ctx.setLineDash(dash(2, 4));
         ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
         ctx.restore();
 
@@ -142,26 +517,158 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
         // Standard rectangle drawing (Grid/Smart without path)
         ctx.fillStyle = fillColor;
         ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
-        ctx.setLineDash(isDashed ? [5, 5] : []); 
+        ctx.setLineDash(isDashed ? dash(5, 5) : []); 
         ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
       }
       
       // Draw ID
-      if (rect.width > 20 && rect.height > 20) {
-        ctx.font = "12px sans-serif";
+      if (rect.width * scale > 20 && rect.height * scale > 20) {
+        ctx.font = `${12 * px}px sans-serif`;
         ctx.fillStyle = "white";
         ctx.shadowColor = "black";
         ctx.shadowBlur = 3;
-        ctx.fillText(`#${i}`, rect.x + 2, rect.y + 12);
+        ctx.fillText(`#${i}`, rect.x + 2 * px, rect.y + 12 * px);
       }
     });
 
+    // Cross out skipped grid cells
+    skippedRects.forEach(rect => {
+      ctx.save();
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.6)';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.strokeStyle = 'rgba(148, 163, 184, 0.6)'; // slate
+      ctx.lineWidth = px;
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.moveTo(rect.x, rect.y);
+      ctx.lineTo(rect.x + rect.width, rect.y + rect.height);
+      ctx.moveTo(rect.x + rect.width, rect.y);
+      ctx.lineTo(rect.x, rect.y + rect.height);
+      ctx.stroke();
+      ctx.restore();
+    });
+
+    // Outline every rect of a multiple selection
+    if (mode === 'manual' && selectedIndexes.length > 1) {
+      ctx.save();
+      ctx.shadowBlur = 0;
+      ctx.setLineDash(dash(4, 2));
+      ctx.lineWidth = 2 * px;
+      ctx.strokeStyle = '#ffffff';
+      selectedIndexes.forEach(i => {
+        const rect = shownRects[i];
+        if (rect) ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      });
+      ctx.restore();
+    }
+
+    // Highlight the selected rect and its resize handles
+    const activeRect = mode === 'manual' && selectedIndex !== null ? shownRects[selectedIndex] : null;
+    if (activeRect && showsResizeHandles) {
+      const size = HANDLE_SIZE * px;
+      ctx.save();
+      ctx.shadowBlur = 0;
+      ctx.setLineDash([]);
+      ctx.lineWidth = px;
+      ctx.strokeStyle = '#ffffff';
+      ctx.strokeRect(activeRect.x, activeRect.y, activeRect.width, activeRect.height);
+      RESIZE_HANDLES.forEach(handle => {
+        const p = getHandlePoint(activeRect, handle);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+        ctx.strokeStyle = '#6366f1'; // indigo
+        ctx.strokeRect(p.x - size / 2, p.y - size / 2, size, size);
+      });
+      ctx.restore();
+    }
+
+    // Vertex handles of the edited path; the hollow midpoints insert a vertex when dragged
+    if (activeRect && tool === 'vertices' && activeRect.path && activeRect.path.length >= 3) {
+      const radius = (HANDLE_SIZE / 2) * px;
+      ctx.save();
+      ctx.shadowBlur = 0;
+      ctx.setLineDash([]);
+      ctx.lineWidth = px;
+      ctx.strokeStyle = '#6366f1'; // indigo
+      getEdgeMidpoints(activeRect.path).forEach(p => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, radius * 0.7, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+        ctx.fill();
+        ctx.stroke();
+      });
+      activeRect.path.forEach(p => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+        ctx.fillStyle = '#ffffff';
+        ctx.fill();
+        ctx.stroke();
+      });
+      ctx.restore();
+    }
+
+    // Draw the polygon being placed, with a rubber band to the pointer
+    if (mode === 'manual' && polygonPoints.length > 0) {
+      ctx.save();
+      ctx.shadowBlur = 0;
+      ctx.strokeStyle = '#10b981'; // Emerald
+      ctx.lineWidth = 2 * px;
+      ctx.beginPath();
+      polygonPoints.forEach((p, idx) => (idx === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.stroke();
+      if (pointerPosition) {
+        ctx.setLineDash(dash(4, 4));
+        ctx.beginPath();
+        const last = polygonPoints[polygonPoints.length - 1];
+        ctx.moveTo(last.x, last.y);
+        ctx.lineTo(pointerPosition.x, pointerPosition.y);
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+      polygonPoints.forEach((p, idx) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, (idx === 0 ? HANDLE_SIZE / 2 : HANDLE_SIZE / 3) * px, 0, Math.PI * 2);
+        ctx.fillStyle = idx === 0 ? '#10b981' : '#ffffff';
+        ctx.fill();
+      });
+      ctx.restore();
+    }
+
+    // Draw the cut of the split tool
+    if (mode === 'manual' && splitLine) {
+      const [a, b] = snapSplitLine(splitLine.start, splitLine.end);
+      ctx.save();
+      ctx.shadowBlur = 0;
+      ctx.strokeStyle = '#f59e0b'; // amber
+      ctx.lineWidth = 2 * px;
+      ctx.setLineDash(dash(6, 3));
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Draw the rect being drawn with the rect tool
+    if (mode === 'manual' && drawStart && draftRect) {
+      ctx.save();
+      ctx.shadowBlur = 0;
+      ctx.strokeStyle = '#10b981'; // Emerald
+      ctx.lineWidth = 2 * px;
+      ctx.setLineDash(dash(4, 4));
+      ctx.fillStyle = 'rgba(16, 185, 129, 0.1)';
+      ctx.fillRect(draftRect.x, draftRect.y, draftRect.width, draftRect.height);
+      ctx.strokeRect(draftRect.x, draftRect.y, draftRect.width, draftRect.height);
+      ctx.restore();
+    }
+
     // Draw currently drawing path (Lasso / Freehand)
     if (mode === 'manual' && isDrawing && currentPath.length > 0) {
       ctx.beginPath();
       ctx.strokeStyle = '#10b981'; // Emerald
-      ctx.lineWidth = 2;
-      ctx.setLineDash([4, 4]);
+      ctx.lineWidth = 2 * px;
+      ctx.setLineDash(dash(4, 4));
       
       ctx.moveTo(currentPath[0].x, currentPath[0].y);
       for(let i = 1; i < currentPath.length; i++) {
@@ -173,57 +680,304 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
       ctx.fillStyle = 'rgba(16, 185, 129, 0.1)';
       ctx.fill();
     }
+
+    ctx.restore();
   };
 
-  const getCanvasCoords = (e: React.MouseEvent): Point => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
+  // Pointer position relative to the canvas, in screen pixels
+  const getScreenPoint = (e: { clientX: number; clientY: number }): Point => {
+    const bounds = canvasRef.current?.getBoundingClientRect();
+    return bounds ? { x: e.clientX - bounds.left, y: e.clientY - bounds.top } : { x: 0, y: 0 };
+  };
+
+  // Screen position mapped through the zoom/pan transform
+  const getCanvasCoords = (e: { clientX: number; clientY: number }): Point =>
+    screenToImage(getScreenPoint(e), getTransform());
 
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
+  // Opaque color of the image pixel under the point, for the eyedropper
+  const sampleColorAt = (p: Point): Color | null => {
+    const img = imgRef.current;
+    const x = Math.floor(p.x);
+    const y = Math.floor(p.y);
+    if (!img || x < 0 || y < 0 || x >= img.width || y >= img.height) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(img, -x, -y);
+    const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+    return a === 0 ? null : { r, g, b };
+  };
 
+  // Lasso points stay on the sheet even when the view shows space around it
+  const clampToImage = (p: Point): Point => {
+    const img = imgRef.current;
+    if (!img) return p;
     return {
-      x: (e.clientX - rect.left) * scaleX,
-      y: (e.clientY - rect.top) * scaleY
+      x: Math.max(0, Math.min(img.width, p.x)),
+      y: Math.max(0, Math.min(img.height, p.y))
     };
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  const getHoverCursor = (coords: Point): string | null => {
+    if (editablePath) {
+      const radius = HANDLE_SIZE * getScreenScale();
+      if (hitTestVertex(editablePath, coords, radius) >= 0) return 'cursor-move';
+      if (hitTestVertex(getEdgeMidpoints(editablePath), coords, radius) >= 0) return 'cursor-copy';
+    }
+    if (showsResizeHandles && selectedRect) {
+      const handle = hitTestHandle(selectedRect, coords, HANDLE_SIZE * getScreenScale());
+      if (handle) return HANDLE_CURSORS[handle];
+    }
+    if (tool === 'select' && hitTestRect(rects, coords) >= 0) return 'cursor-move';
+    return null;
+  };
+
+  const handleToolDown = (e: React.PointerEvent) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
+    // 0. Panning works in every mode, with space held or the middle button
+    if ((isSpaceDown && e.button === 0) || e.button === 1) {
+      e.preventDefault();
+      setPan({ startX: e.clientX, startY: e.clientY, view });
+      return;
+    }
+
     if (e.button !== 0) return; // Only Left Click
 
-    // 1. Wand Selection Logic
+    // 1. Eyedropper: sample the clicked pixel as a key color
+    if (isEyedropperMode && onPickColor) {
+        const color = sampleColorAt(getCanvasCoords(e));
+        if (color) onPickColor(color);
+        return;
+    }
+
+    // 2. Wand Selection Logic
     if (isWandMode && onWandSelect) {
         const coords = getCanvasCoords(e);
         onWandSelect(Math.floor(coords.x), Math.floor(coords.y));
         return; 
     }
 
-    // 2. Manual Drawing Logic
-    if (mode === 'manual' && !isWandMode) {
-        const coords = getCanvasCoords(e);
-        setCurrentPath([coords]);
-        setIsDrawing(true);
+    if (mode !== 'manual' || isPicking) return;
+    const coords = getCanvasCoords(e);
+    const img = imgRef.current;
+    if (!img) return;
+
+    // 2. Vertex editing: drag a vertex, Alt+click to delete it, drag a midpoint to insert one
+    if (tool === 'vertices') {
+      const radius = HANDLE_SIZE * getScreenScale();
+      if (editablePath && selectedRect && selectedIndex !== null) {
+        const vertex = hitTestVertex(editablePath, coords, radius);
+        if (vertex >= 0 && e.altKey) {
+          const next = removeVertex(selectedRect, vertex);
+          if (next) onUpdateManualRect?.(selectedIndex, next);
+          return;
+        }
+        if (vertex >= 0) {
+          setDrag({ kind: 'vertex', start: coords, origin: selectedRect, vertex });
+          setDraftRect(selectedRect);
+          return;
+        }
+        const edge = hitTestVertex(getEdgeMidpoints(editablePath), coords, radius);
+        if (edge >= 0) {
+          // Midpoints can fall on half pixels; moving the new vertex onto itself rounds and clamps it
+          const midpoint = getEdgeMidpoints(editablePath)[edge];
+          const origin = moveVertex(insertVertex(selectedRect, edge + 1, midpoint), edge + 1, midpoint, img);
+          setDrag({ kind: 'vertex', start: coords, origin, vertex: edge + 1 });
+          setDraftRect(origin);
+          return;
+        }
+      }
+      const index = hitTestRect(rects, coords);
+      setSelectedIndex(index >= 0 ? index : null);
+      return;
+    }
+
+    // 3. Resize handles of the selected rect take precedence over drawing
+    if (showsResizeHandles && selectedRect) {
+      const handle = hitTestHandle(selectedRect, coords, HANDLE_SIZE * getScreenScale());
+      if (handle) {
+        setDrag({ kind: handle, start: coords, origin: selectedRect });
+        setDraftRect(selectedRect);
+        return;
+      }
     }
+
+    // 4. Select / move an existing rect; Shift toggles it in a multiple selection
+    if (tool === 'select') {
+      const index = hitTestRect(rects, coords);
+      if (e.shiftKey) {
+        if (index >= 0) {
+          setSelectedIndexes(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]));
+        }
+        return;
+      }
+      setSelectedIndex(index >= 0 ? index : null);
+      if (index >= 0) {
+        setDrag({ kind: 'move', start: coords, origin: rects[index] });
+        setDraftRect(rects[index]);
+      }
+      return;
+    }
+
+    // 5. Split line
+    if (tool === 'split') {
+      setSplitLine({ start: coords, end: coords });
+      return;
+    }
+
+    // 6. Rectangle drawing
+    if (tool === 'rect') {
+      setSelectedIndex(null);
+      setDrawStart(coords);
+      setDraftRect(rectFromPoints(coords, coords, img, getSnapOptions(null)));
+      return;
+    }
+
+    // 7. Polygon: each click places a vertex, clicking the first one closes the shape
+    if (tool === 'polygon') {
+      setSelectedIndex(null);
+      const snap = getSnapOptions(null);
+      const point = clampToImage({
+        x: snapCoordinate(coords.x, snap.edgesX, snap),
+        y: snapCoordinate(coords.y, snap.edgesY, snap)
+      });
+      const first = polygonPoints[0];
+      if (polygonPoints.length >= 3 && hitTestVertex([first], coords, HANDLE_SIZE * getScreenScale()) === 0) {
+        closePolygon(polygonPoints);
+        return;
+      }
+      const last = polygonPoints[polygonPoints.length - 1];
+      if (!last || last.x !== point.x || last.y !== point.y) setPolygonPoints([...polygonPoints, point]);
+      return;
+    }
+
+    // 8. Manual Drawing Logic (Lasso)
+    setSelectedIndex(null);
+    setCurrentPath([clampToImage(coords)]);
+    setIsDrawing(true);
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (isWandMode) return;
+  const handleToolMove = (e: React.PointerEvent) => {
+    if (pan) {
+      if (!imgSize || !viewport) return;
+      const { scale } = getViewTransform(pan.view, imgSize, viewport);
+      setView(clampView({
+        ...pan.view,
+        centerX: pan.view.centerX - (e.clientX - pan.startX) / scale,
+        centerY: pan.view.centerY - (e.clientY - pan.startY) / scale
+      }, imgSize, viewport));
+      return;
+    }
+
+    if (isPicking || mode !== 'manual') return;
 
-    if (!isDrawing || mode !== 'manual') return;
-    
-    // Add point to path
     const coords = getCanvasCoords(e);
-    setCurrentPath(prev => [...prev, coords]);
+    const img = imgRef.current;
+
+    if (drag && img) {
+      const snap = getSnapOptions(selectedIndex);
+      if (drag.kind === 'vertex') setDraftRect(moveVertex(drag.origin, drag.vertex ?? 0, coords, img));
+      else if (drag.kind === 'move') setDraftRect(moveRect(drag.origin, coords.x - drag.start.x, coords.y - drag.start.y, img, snap));
+      else setDraftRect(resizeRect(drag.origin, drag.kind, coords, img, snap));
+      return;
+    }
+
+    if (polygonPoints.length > 0) setPointerPosition(coords);
+
+    if (splitLine) {
+      setSplitLine({ ...splitLine, end: coords });
+      return;
+    }
+
+    if (drawStart && img) {
+      setDraftRect(rectFromPoints(drawStart, coords, img, getSnapOptions(null)));
+      return;
+    }
+
+    if (!isDrawing) {
+      setHoverCursor(getHoverCursor(coords));
+      return;
+    }
+    
+    // Add point to path, with every sample a fast pen stroke packed into this event
+    const samples = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const points = samples.length > 0 ? samples.map(sample => clampToImage(getCanvasCoords(sample))) : [clampToImage(coords)];
+    setCurrentPath(prev => [...prev, ...points]);
   };
 
-  const handleMouseUp = (e: React.MouseEvent) => {
-    if (isWandMode) return;
+  // Applies the previewed edit to the manual rect (an inserted vertex counts even if it didn't move)
+  const finishDrag = () => {
+    if (drag && draftRect && selectedIndex !== null && selectedRect && !isSameRect(draftRect, selectedRect)) {
+      onUpdateManualRect?.(selectedIndex, draftRect);
+    }
+    setDrag(null);
+    setDraftRect(null);
+  };
+
+  // Cuts the rect under the middle of the line (or under its start) in two
+  const finishSplit = () => {
+    if (!splitLine) return;
+    const [a, b] = snapSplitLine(splitLine.start, splitLine.end);
+    setSplitLine(null);
+
+    const middle = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    let index = hitTestRect(rects, middle);
+    if (index < 0) index = hitTestRect(rects, splitLine.start);
+    if (index < 0 || !onSplitManualRect) return;
+
+    const parts = splitRect(rects[index], a, b);
+    if (parts.length === 2) {
+      onSplitManualRect(index, parts);
+      setSelectedIndexes([index, index + 1]);
+    }
+  };
+
+  const closePolygon = (points: Point[]) => {
+    const rect = points.length >= 3 ? rectFromPath(points) : null;
+    if (rect && rect.width > 2 && rect.height > 2 && onAddManualRect) {
+      onAddManualRect(rect);
+      setSelectedIndex(rects.length);
+    }
+    setPolygonPoints([]);
+  };
+
+  // Adds the drawn rectangle and selects it for fine tuning
+  const finishRect = () => {
+    if (draftRect && draftRect.width > 2 && draftRect.height > 2 && onAddManualRect) {
+      onAddManualRect(draftRect);
+      setSelectedIndex(rects.length);
+    }
+    setDrawStart(null);
+    setDraftRect(null);
+  };
+
+  const handleToolUp = () => {
+    if (pan) {
+      setPan(null);
+      return;
+    }
+
+    if (isPicking || mode !== 'manual') return;
+
+    if (drag) {
+      finishDrag();
+      return;
+    }
+    if (drawStart) {
+      finishRect();
+      return;
+    }
+    if (splitLine) {
+      finishSplit();
+      return;
+    }
 
-    if (!isDrawing || mode !== 'manual') return;
+    if (!isDrawing) return;
     setIsDrawing(false);
 
     if (currentPath.length < 3) {
@@ -232,24 +986,9 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
         return;
     }
 
-    // Calculate Bounding Box of the drawn path
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-
-    currentPath.forEach(p => {
-        if (p.x < minX) minX = p.x;
-        if (p.x > maxX) maxX = p.x;
-        if (p.y < minY) minY = p.y;
-        if (p.y > maxY) maxY = p.y;
-    });
-
-    // Add padding (optional) or keep strict
-    const rect: Rect = {
-        x: Math.floor(minX),
-        y: Math.floor(minY),
-        width: Math.ceil(maxX - minX),
-        height: Math.ceil(maxY - minY),
-        path: [...currentPath] // Save the path coordinates!
-    };
+    // Drop the mouse jitter, then fit the bounding box to what is left
+    const path = simplifyPolygon(currentPath, LASSO_SIMPLIFY_TOLERANCE * getScreenScale());
+    const rect = rectFromPath(path);
 
     // Minimum size filter
     if (rect.width > 2 && rect.height > 2 && onAddManualRect) {
@@ -259,53 +998,293 @@ const ImageEditor: React.FC<ImageEditorProps> = ({
     setCurrentPath([]);
   };
 
-  const handleContextMenu = (e: React.MouseEvent) => {
-    if (isWandMode) {
-        e.preventDefault(); 
-        return; 
-    }
+  const handleDoubleClick = () => {
+    if (mode === 'manual' && tool === 'polygon' && polygonPoints.length >= 3) closePolygon(polygonPoints);
+  };
+
+  // Drops whatever the pointer started without applying it
+  const cancelToolAction = () => {
+    setPan(null);
+    setIsDrawing(false);
+    setCurrentPath([]);
+    setDrag(null);
+    setDraftRect(null);
+    setDrawStart(null);
+    setSplitLine(null);
+  };
 
+  /**
+   * Right-click, long press or pen eraser: removes the vertex (vertex tool) or the rect under the point.
+   */
+  const removeAt = (coords: Point) => {
     if (mode !== 'manual' || !onRemoveManualRect) return;
-    e.preventDefault(); // Prevent browser menu
 
-    const coords = getCanvasCoords(e);
+    // With the vertex tool, a vertex under the point is deleted on its own
+    if (editablePath && selectedRect && selectedIndex !== null) {
+      const vertex = hitTestVertex(editablePath, coords, HANDLE_SIZE * getScreenScale());
+      if (vertex >= 0) {
+        const next = removeVertex(selectedRect, vertex);
+        if (next) onUpdateManualRect?.(selectedIndex, next);
+        return;
+      }
+    }
     
-    // Find rect under mouse (iterate backwards to get top-most)
-    for (let i = rects.length - 1; i >= 0; i--) {
-      const r = rects[i];
-      if (
-        coords.x >= r.x && 
-        coords.x <= r.x + r.width && 
-        coords.y >= r.y && 
-        coords.y <= r.y + r.height
-      ) {
-        onRemoveManualRect(i);
-        break; // Remove only one
+    // Find rect under the pointer (top-most)
+    const index = hitTestRect(rects, coords);
+    if (index < 0) return;
+    onRemoveManualRect(index); // Remove only one
+
+    // Keep the selection on the same rects after the indexes shift
+    setSelectedIndexes(prev => prev.filter(i => i !== index).map(i => (i > index ? i - 1 : i)));
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
+
+  const startPinch = () => {
+    const [a, b] = [...touchPointers.current.values()];
+    const middle = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    pinchRef.current = {
+      startDistance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      anchor: screenToImage(middle, getTransform()),
+      view
+    };
+  };
+
+  const updatePinch = () => {
+    const pinch = pinchRef.current;
+    if (!pinch || !imgSize || !viewport) return;
+    const [a, b] = [...touchPointers.current.values()];
+    const middle = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const zoom = pinch.view.zoom * Math.hypot(b.x - a.x, b.y - a.y) / pinch.startDistance;
+    setView(anchorViewAt(zoom, pinch.anchor, middle, imgSize, viewport));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    lastPointerType.current = e.pointerType;
+    canvas.setPointerCapture(e.pointerId); // Keep receiving moves when a drag leaves the canvas
+
+    if (e.pointerType === 'touch') {
+      touchPointers.current.set(e.pointerId, getScreenPoint(e));
+      if (touchPointers.current.size >= 2) {
+        // A second finger turns the gesture into pinch-zoom / two-finger pan
+        cancelLongPress();
+        cancelToolAction();
+        if (touchPointers.current.size === 2) startPinch();
+        return;
       }
+
+      // One finger pans when there is nothing to draw
+      if (mode !== 'manual' && !isPicking) {
+        setPan({ startX: e.clientX, startY: e.clientY, view });
+        return;
+      }
+
+      // Holding a finger still replaces right-click removal (a polygon tap already placed a vertex)
+      if (mode === 'manual' && !isPicking && tool !== 'polygon') {
+        const coords = getCanvasCoords(e);
+        longPressRef.current = {
+          start: getScreenPoint(e),
+          timer: window.setTimeout(() => {
+            longPressRef.current = null;
+            cancelToolAction();
+            removeAt(coords);
+            navigator.vibrate?.(20);
+          }, LONG_PRESS_MS)
+        };
+      }
+    }
+
+    // The eraser end of a pen removes like right-click
+    if (e.pointerType === 'pen' && e.button === PEN_ERASER_BUTTON) {
+      removeAt(getCanvasCoords(e));
+      return;
     }
+
+    handleToolDown(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (e.pointerType === 'touch' && touchPointers.current.has(e.pointerId)) {
+      const point = getScreenPoint(e);
+      touchPointers.current.set(e.pointerId, point);
+      if (pinchRef.current) {
+        updatePinch();
+        return;
+      }
+      const press = longPressRef.current;
+      if (press && Math.hypot(point.x - press.start.x, point.y - press.start.y) > LONG_PRESS_SLOP) cancelLongPress();
+    }
+
+    handleToolMove(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (e.pointerType === 'touch') {
+      touchPointers.current.delete(e.pointerId);
+      cancelLongPress();
+      if (pinchRef.current) {
+        // The remaining finger stays idle until it is lifted too
+        if (touchPointers.current.size < 2) pinchRef.current = null;
+        return;
+      }
+    }
+
+    handleToolUp();
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent) => {
+    touchPointers.current.delete(e.pointerId);
+    if (touchPointers.current.size < 2) pinchRef.current = null;
+    cancelLongPress();
+    cancelToolAction();
+  };
+
+  // With pointer capture this only fires once the pointer is released, so just clear the hover state
+  const handlePointerLeave = () => {
+    setPointerPosition(null);
+    setHoverCursor(null);
+  };
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (isPicking || mode === 'manual') e.preventDefault(); // Prevent browser menu
+    // Touch and pen long presses fire contextmenu too; those are handled as long presses
+    if (isPicking || lastPointerType.current !== 'mouse') return;
+    removeAt(getCanvasCoords(e));
   };
 
   // Dynamic cursor style
   let cursorClass = 'cursor-default';
-  if (isWandMode) cursorClass = 'cursor-pointer'; // Can use a wand icon if available via CSS
-  else if (mode === 'manual') cursorClass = 'cursor-crosshair';
+  if (isEyedropperMode) cursorClass = 'cursor-crosshair';
+  else if (isWandMode) cursorClass = 'cursor-pointer'; // Can use a wand icon if available via CSS
+  else if (mode === 'manual') cursorClass = hoverCursor ?? (tool === 'select' ? 'cursor-default' : 'cursor-crosshair');
+  if (pan) cursorClass = 'cursor-grabbing';
+  else if (isSpaceDown) cursorClass = 'cursor-grab';
+
+  const zoomPercent = Math.round(getTransform().scale * 100);
+
+  const manualHints: Record<ManualTool, string> = {
+    lasso: 'Laço Livre (Desenhe e Solte)',
+    polygon: 'Polígono (Clique nos Vértices, Enter Fecha)',
+    vertices: 'Vértices (Arraste, Alt+Clique Remove)',
+    split: 'Dividir (Trace uma Linha sobre a Caixa)',
+    rect: 'Retângulo (Arraste para Desenhar)',
+    select: 'Selecionar (Arraste, Alças, Setas; Shift+Clique Soma)'
+  };
+
+  const toolButtons: { id: ManualTool; label: string; icon: React.ReactNode }[] = [
+    { id: 'lasso', label: 'Laço', icon: <Lasso className="w-4 h-4" /> },
+    { id: 'polygon', label: 'Polígono', icon: <Pentagon className="w-4 h-4" /> },
+    { id: 'rect', label: 'Retângulo', icon: <Square className="w-4 h-4" /> },
+    { id: 'select', label: 'Selecionar', icon: <MousePointer2 className="w-4 h-4" /> },
+    { id: 'vertices', label: 'Editar Vértices', icon: <Spline className="w-4 h-4" /> },
+    { id: 'split', label: 'Dividir', icon: <Slice className="w-4 h-4" /> }
+  ];
 
   return (
     <div ref={containerRef} className="w-full bg-slate-900/50 rounded-xl overflow-hidden border border-slate-700 relative select-none">
         <div className="absolute top-2 right-2 z-10 bg-black/70 text-xs text-white px-2 py-1 rounded backdrop-blur-md pointer-events-none transition-all">
+            {isEyedropperMode && <span className="text-indigo-400 font-bold">Conta-gotas: Clique na cor a remover</span>}
             {isWandMode && <span className="text-indigo-400 font-bold">Modo Varinha: Selecione uma área</span>}
-            {!isWandMode && mode === 'smart' && 'Detecção Automática (Lasso)'}
-            {!isWandMode && mode === 'grid' && 'Visualização da Grade'}
-            {!isWandMode && mode === 'manual' && 'Laço Livre (Desenhe e Solte)'}
+            {!isPicking && mode === 'smart' && 'Detecção Automática (Lasso)'}
+            {!isPicking && mode === 'grid' && 'Visualização da Grade'}
+            {!isPicking && mode === 'manual' && manualHints[tool]}
         </div>
+        {mode === 'manual' && !isPicking && (
+          <div className="absolute top-2 left-2 z-10 flex items-center gap-1 bg-black/70 p-1 rounded backdrop-blur-md">
+            {toolButtons.map(({ id, label, icon }) => (
+              <button
+                key={id}
+                onClick={() => setTool(id)}
+                title={label}
+                className={`p-1.5 rounded transition-colors ${tool === id ? 'bg-indigo-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}
+              >
+                {icon}
+              </button>
+            ))}
+            <div className="w-px h-5 bg-slate-600 mx-1" />
+            <button
+              onClick={() => setSnapToEdges(!snapToEdges)}
+              title="Encaixar nas bordas dos sprites"
+              className={`p-1.5 rounded transition-colors ${snapToEdges ? 'bg-emerald-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}
+            >
+              <Magnet className="w-4 h-4" />
+            </button>
+            <select
+              value={gridStep}
+              onChange={(e) => setGridStep(parseInt(e.target.value))}
+              title="Encaixar na grade"
+              className="bg-slate-800 border border-slate-600 rounded text-xs text-slate-200 px-1 py-1 outline-none"
+            >
+              {GRID_STEPS.map(step => (
+                <option key={step} value={step}>{step === 0 ? 'Sem grade' : `Grade ${step}px`}</option>
+              ))}
+            </select>
+            {selectedIndexes.length > 0 && (
+              <>
+                <div className="w-px h-5 bg-slate-600 mx-1" />
+                {selectedIndexes.length > 1 && (
+                  <button
+                    onClick={mergeSelection}
+                    title="Unir seleções"
+                    className="flex items-center gap-1 px-1.5 py-1 rounded text-xs text-slate-200 hover:bg-slate-700 transition-colors"
+                  >
+                    <Combine className="w-4 h-4" /> {selectedIndexes.length}
+                  </button>
+                )}
+                <button
+                  onClick={deleteSelection}
+                  title="Remover seleção (Delete)"
+                  className="p-1.5 rounded text-red-400 hover:bg-red-500/20 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {viewport && (
+          <div className="absolute bottom-2 left-2 z-10 flex items-center gap-1 bg-black/70 p-1 rounded backdrop-blur-md text-slate-300">
+            <button onClick={() => zoomBy(1 / BUTTON_ZOOM_FACTOR)} title="Diminuir zoom" className="p-1.5 rounded hover:bg-slate-700 transition-colors">
+              <ZoomOut className="w-4 h-4" />
+            </button>
+            <span className="text-xs font-mono w-12 text-center">{zoomPercent}%</span>
+            <button onClick={() => zoomBy(BUTTON_ZOOM_FACTOR)} title="Aumentar zoom (roda do mouse)" className="p-1.5 rounded hover:bg-slate-700 transition-colors">
+              <ZoomIn className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => imgSize && setView(createFitView(imgSize))}
+              title="Ajustar à tela (Espaço + arrastar para mover)"
+              className="p-1.5 rounded hover:bg-slate-700 transition-colors"
+            >
+              <Maximize className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {visibleRegion && imgRef.current && view.zoom > 1 && (
+          <div className="absolute bottom-2 right-2 z-10">
+            <Minimap
+              image={imgRef.current}
+              visibleRegion={visibleRegion}
+              onNavigate={centerViewOn}
+            />
+          </div>
+        )}
         <canvas 
           ref={canvasRef} 
-          className={`block mx-auto max-w-full h-auto ${cursorClass}`}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
+          className={`block touch-none ${cursorClass}`}
+          style={viewport ? { width: viewport.width, height: viewport.height } : undefined}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+          onPointerLeave={handlePointerLeave}
+          onDoubleClick={handleDoubleClick}
           onContextMenu={handleContextMenu}
-          onMouseLeave={() => setIsDrawing(false)}
         />
     </div>
   );
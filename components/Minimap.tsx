@@ -0,0 +1,75 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Point, Rect } from '../types';
+
+interface MinimapProps {
+  image: HTMLImageElement;
+  visibleRegion: Rect; // Part of the image shown in the editor, in image pixels
+  onNavigate: (center: Point) => void;
+}
+
+const MAX_SIZE = 120; // Longest side in screen pixels
+
+const Minimap: React.FC<MinimapProps> = ({ image, visibleRegion, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDraggingRef = useRef(false);
+  const scale = Math.min(MAX_SIZE / image.width, MAX_SIZE / image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  // Downscaling the whole sheet is the expensive part, so it happens once per image
+  const thumbnail = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+    return canvas;
+  }, [image, width, height]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(thumbnail, 0, 0);
+
+    // Dim what is off screen and outline the viewport
+    const { x, y, width: w, height: h } = visibleRegion;
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.55)';
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.rect(x * scale, y * scale, w * scale, h * scale);
+    ctx.fill('evenodd');
+    ctx.strokeStyle = '#818cf8'; // indigo
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(x * scale, y * scale, w * scale, h * scale);
+  }, [thumbnail, visibleRegion, width, height, scale]);
+
+  const navigate = (e: React.PointerEvent) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    onNavigate({
+      x: (e.clientX - bounds.left) / scale,
+      y: (e.clientY - bounds.top) / scale
+    });
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      style={{ width, height }}
+      className="block rounded border border-slate-600 bg-slate-950 shadow-lg cursor-pointer touch-none"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        isDraggingRef.current = true;
+        navigate(e);
+      }}
+      onPointerMove={(e) => { if (isDraggingRef.current) navigate(e); }}
+      onPointerUp={() => { isDraggingRef.current = false; }}
+      onPointerCancel={() => { isDraggingRef.current = false; }}
+    />
+  );
+};
+
+export default Minimap;
@@ -1,6 +1,7 @@
 import React, { useRef, useState } from 'react';
 import { Upload, FileImage, AlertCircle } from 'lucide-react';
-import { UploadedImage } from '../types';
+import { UploadedImage, Rect } from '../types';
+import { parseAsepriteJson } from '../utils/aseprite';
 
 interface SpriteUploaderProps {
   onImageUpload: (image: UploadedImage) => void;
@@ -11,13 +12,30 @@ const SpriteUploader: React.FC<SpriteUploaderProps> = ({ onImageUpload }) => {
   const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const handleFiles = (file: File) => {
+  const handleFiles = async (files: File[]) => {
     setError(null);
-    if (!file.type.match('image/png') && !file.type.match('image/jpeg')) {
-      setError('Por favor, envie apenas arquivos PNG ou JPG.');
+    const file = files.find(f => f.type.match('image/png') || f.type.match('image/jpeg'));
+    const jsonFile = files.find(f => f.type === 'application/json' || f.name.toLowerCase().endsWith('.json'));
+
+    if (!file) {
+      setError(jsonFile
+        ? 'Envie o PNG da spritesheet junto com o JSON.'
+        : 'Por favor, envie apenas arquivos PNG ou JPG.');
       return;
     }
 
+    // Optional Aseprite sidecar with frames, durations and tags
+    let importedRects: Rect[] | undefined;
+    if (jsonFile) {
+      try {
+        importedRects = parseAsepriteJson(await jsonFile.text());
+      } catch (err) {
+        console.error('Failed to parse Aseprite JSON', err);
+        setError('JSON do Aseprite inválido.');
+        return;
+      }
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const img = new Image();
@@ -27,6 +45,7 @@ const SpriteUploader: React.FC<SpriteUploaderProps> = ({ onImageUpload }) => {
           file,
           originalWidth: img.width,
           originalHeight: img.height,
+          importedRects,
         });
       };
       img.src = e.target?.result as string;
@@ -39,7 +58,7 @@ const SpriteUploader: React.FC<SpriteUploaderProps> = ({ onImageUpload }) => {
     e.stopPropagation();
     setDragActive(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFiles(e.dataTransfer.files[0]);
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   };
 
@@ -56,7 +75,7 @@ const SpriteUploader: React.FC<SpriteUploaderProps> = ({ onImageUpload }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
     if (e.target.files && e.target.files[0]) {
-      handleFiles(e.target.files[0]);
+      handleFiles(Array.from(e.target.files));
     }
   };
 
@@ -81,7 +100,8 @@ const SpriteUploader: React.FC<SpriteUploaderProps> = ({ onImageUpload }) => {
           ref={inputRef}
           type="file"
           className="hidden"
-          accept="image/png, image/jpeg"
+          accept="image/png, image/jpeg, application/json, .json"
+          multiple
           onChange={handleChange}
         />
 
@@ -100,7 +120,7 @@ const SpriteUploader: React.FC<SpriteUploaderProps> = ({ onImageUpload }) => {
                 Clique para enviar ou arraste a imagem
               </p>
               <p className="text-sm text-slate-400">
-                Suporta PNG e JPG (Spritesheets)
+                Suporta PNG e JPG (Spritesheets) + JSON do Aseprite opcional
               </p>
             </>
           )}
@@ -3,12 +3,19 @@ export interface Dimensions {
   height: number;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
 export interface Rect {
   x: number;
   y: number;
   width: number;
   height: number;
-  path?: { x: number; y: number }[]; // Coordinates for the lasso polygon
+  path?: Point[]; // Coordinates for the lasso / contour polygon
+  duration?: number; // Frame duration in ms (e.g. imported from Aseprite)
+  tag?: string; // Animation tag the frame belongs to
 }
 
 export interface Color {
@@ -17,17 +24,48 @@ export interface Color {
   b: number;
 }
 
+// A background color to key out, with how far a pixel may be from it
+export interface KeyColor {
+  color: Color;
+  tolerance: number; // Summed RGB difference for hard keying, CIELAB ΔE for soft keying
+}
+
 export interface SpriteConfig {
   mode: 'grid' | 'smart' | 'manual';
   rows: number;
   cols: number;
-  // For grid mode fine-tuning (optional future expansion, keeping simple for now)
-  padding: number;
+  // Grid mode: cells come from rows/cols ('count') or from an explicit cell size ('cellSize')
+  gridSizing: 'count' | 'cellSize';
+  cellWidth: number;
+  cellHeight: number;
+  offsetX: number; // Outer margin before the first column
+  offsetY: number; // Outer margin before the first row
+  spacingX: number; // Gutter between columns
+  spacingY: number; // Gutter between rows
+  skipEmptyCells: boolean; // Drop cells that only hold transparency or the background color
   removeBackground: boolean;
-  backgroundColor: Color | null; // The specific color to remove
+  keyColors: KeyColor[]; // Colors made transparent; empty = the pixel at (0,0)
+  keyingMode: 'hard' | 'soft'; // 'soft' ramps alpha over a perceptual distance instead of a cutoff
+  keySoftness: number; // ΔE width of the soft edge ramp
+  despill: boolean; // Removes key color bleeding from soft-keyed edge pixels
   useCustomSize: boolean;
   customWidth: number;
   customHeight: number;
+  // Smart detection: group islands whose boxes are at most this many px apart
+  mergeDistance: number;
+  mergeOverlapping: boolean;
+  // Smart detection tuning
+  alphaThreshold: number; // Pixels with alpha above this count as solid (0-254)
+  connectivity: 4 | 8; // 8 also joins diagonal-only pixels
+  minIslandArea: number; // Islands with fewer solid pixels are discarded as noise
+  minIslandSize: number; // Islands narrower or shorter than this (px) are discarded
+  rowTolerance: number; // Max vertical offset (px) for rects to be read as the same row
+  // What separates sprites from the background in smart mode
+  detectionKey: 'alpha' | 'color';
+  detectionColor: Color | null; // Background color for 'color' keying, null = sample pixel (0,0)
+  detectionTolerance: number; // Summed RGB difference still treated as background
+  traceContours: boolean; // Store each island's outline as a polygon `path`
+  contourTolerance: number; // Douglas–Peucker tolerance (px) for the outlines
 }
 
 export interface ProcessedFrame {
@@ -36,6 +74,11 @@ export interface ProcessedFrame {
   width: number;
   height: number;
   sourceRect: Rect;
+  duration?: number;
+  tag?: string;
+  row?: number; // Grid cell position (grid mode only)
+  col?: number;
+  name?: string; // Export name resolved from the filename template
 }
 
 export interface UploadedImage {
@@ -43,4 +86,41 @@ export interface UploadedImage {
   file: File;
   originalWidth: number;
   originalHeight: number;
-}
\ No newline at end of file
+  importedRects?: Rect[]; // Frames read from a sidecar JSON (Aseprite)
+}
+
+// Everything an undoable edit can change
+export interface EditorSnapshot {
+  image: UploadedImage;
+  config: SpriteConfig;
+  manualRects: Rect[];
+}
+
+export interface AnimationOptions {
+  delay: number; // Milliseconds per frame
+  loopCount: number; // Number of plays, 0 = loop forever
+}
+
+export interface AtlasOptions {
+  maxSize: number;
+  powerOfTwo: boolean;
+  padding: number; // Space between packed sprites
+  extrude: number; // Edge pixels repeated around each sprite to avoid bleeding
+  trim: boolean; // Crop fully transparent borders before packing
+}
+
+export interface AtlasFrame {
+  name: string;
+  frame: Rect; // Position of the (trimmed) sprite on the atlas page
+  rotated: boolean;
+  trimmed: boolean;
+  spriteSourceSize: Rect; // Trimmed area relative to the untrimmed frame
+  sourceSize: Dimensions;
+}
+
+export interface AtlasPage {
+  width: number;
+  height: number;
+  dataUrl: string;
+  frames: AtlasFrame[];
+}
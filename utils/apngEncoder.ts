@@ -0,0 +1,167 @@
+import { AnimationOptions, ProcessedFrame } from '../types';
+import { getFrameDelays, getFramesImageData } from './exportUtils';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Wraps a payload into a PNG chunk (length + type + data + CRC).
+ */
+const makeChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/**
+ * Applies PNG scanline filters to RGBA pixels, picking the cheapest filter per row
+ * (minimum sum of absolute differences heuristic).
+ */
+const filterScanlines = ({ data, width, height }: ImageData): Uint8Array => {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+
+  const paeth = (a: number, b: number, c: number) => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+  };
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    let bestFilter = 0;
+    let bestScore = Infinity;
+
+    for (let filter = 0; filter < 5; filter++) {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const raw = data[row + i];
+        const left = i >= 4 ? data[row + i - 4] : 0;
+        const up = y > 0 ? data[row - stride + i] : 0;
+        const upLeft = y > 0 && i >= 4 ? data[row - stride + i - 4] : 0;
+
+        let value = raw;
+        if (filter === 1) value = raw - left;
+        else if (filter === 2) value = raw - up;
+        else if (filter === 3) value = raw - ((left + up) >> 1);
+        else if (filter === 4) value = raw - paeth(left, up, upLeft);
+
+        candidate[i] = value & 0xff;
+        score += candidate[i] < 128 ? candidate[i] : 256 - candidate[i];
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        out.set(candidate, y * (stride + 1) + 1);
+      }
+    }
+    out[y * (stride + 1)] = bestFilter;
+  }
+
+  return out;
+};
+
+/**
+ * zlib-compresses bytes with the browser's native CompressionStream.
+ */
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Encodes RGBA frames (all of the same size) into an animated PNG.
+ * Frames are full-canvas and replace the previous one (blend op SOURCE),
+ * so partial alpha is preserved exactly.
+ */
+export const encodeApng = async (frames: ImageData[], delays: number[], loopCount: number): Promise<Uint8Array> => {
+  const width = frames[0]?.width ?? 1;
+  const height = frames[0]?.height ?? 1;
+  const chunks: Uint8Array[] = [Uint8Array.from(PNG_SIGNATURE)];
+
+  // IHDR: 8-bit RGBA, no interlace
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr.set([8, 6, 0, 0, 0], 8);
+  chunks.push(makeChunk('IHDR', ihdr));
+
+  // acTL: frame count + number of plays
+  const actl = new Uint8Array(8);
+  const actlView = new DataView(actl.buffer);
+  actlView.setUint32(0, frames.length);
+  actlView.setUint32(4, loopCount);
+  chunks.push(makeChunk('acTL', actl));
+
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const fctl = new Uint8Array(26);
+    const fctlView = new DataView(fctl.buffer);
+    fctlView.setUint32(0, sequence++);
+    fctlView.setUint32(4, width);
+    fctlView.setUint32(8, height);
+    fctlView.setUint32(12, 0); // x offset
+    fctlView.setUint32(16, 0); // y offset
+    fctlView.setUint16(20, Math.min(0xffff, Math.round(delays[i])));
+    fctlView.setUint16(22, 1000); // Delay is expressed in milliseconds
+    fctl[24] = 0; // dispose_op: NONE
+    fctl[25] = 0; // blend_op: SOURCE
+    chunks.push(makeChunk('fcTL', fctl));
+
+    const compressed = await deflate(filterScanlines(frames[i]));
+    if (i === 0) {
+      // The first frame doubles as the static image for non-APNG viewers
+      chunks.push(makeChunk('IDAT', compressed));
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(compressed, 4);
+      chunks.push(makeChunk('fdAT', fdat));
+    }
+  }
+
+  chunks.push(makeChunk('IEND', new Uint8Array(0)));
+
+  const file = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    file.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return file;
+};
+
+/**
+ * Renders the processed frames as an animated PNG blob.
+ */
+export const framesToApng = async (frames: ProcessedFrame[], options: AnimationOptions): Promise<Blob> => {
+  const imageData = await getFramesImageData(frames);
+  const delays = getFrameDelays(frames, options.delay);
+  return new Blob([await encodeApng(imageData, delays, options.loopCount)], { type: 'image/apng' });
+};
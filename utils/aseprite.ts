@@ -0,0 +1,113 @@
+import { ProcessedFrame, Rect, UploadedImage } from '../types';
+import { getFrameName } from './exportUtils';
+
+interface AsepriteRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface AsepriteFrame {
+  filename?: string;
+  frame: AsepriteRect;
+  duration?: number;
+}
+
+interface AsepriteTag {
+  name: string;
+  from: number;
+  to: number;
+  direction?: string;
+}
+
+interface AsepriteData {
+  frames: Record<string, AsepriteFrame> | AsepriteFrame[];
+  meta?: {
+    image?: string;
+    frameTags?: AsepriteTag[];
+  };
+}
+
+/**
+ * Reads an Aseprite sprite sheet JSON (hash or array layout) into rects.
+ * Frame order, durations and the tag of each frame are preserved.
+ */
+export const parseAsepriteJson = (text: string): Rect[] => {
+  const data = JSON.parse(text) as AsepriteData;
+  if (!data || typeof data.frames !== 'object' || data.frames === null) {
+    throw new Error('Aseprite JSON has no "frames" entry');
+  }
+
+  // Hash layout keeps Aseprite's frame order as insertion order
+  const entries = Array.isArray(data.frames) ? data.frames : Object.values(data.frames);
+  const tags = data.meta?.frameTags ?? [];
+
+  return entries.map((entry, index) => {
+    if (!entry?.frame) throw new Error(`Aseprite frame ${index} has no "frame" rect`);
+    const tag = tags.find(t => index >= t.from && index <= t.to);
+    return {
+      x: entry.frame.x,
+      y: entry.frame.y,
+      width: entry.frame.w,
+      height: entry.frame.h,
+      duration: entry.duration,
+      tag: tag?.name
+    };
+  });
+};
+
+/**
+ * Groups consecutive frames sharing a tag into Aseprite frame tags.
+ */
+const buildFrameTags = (frames: ProcessedFrame[]): AsepriteTag[] => {
+  const tags: AsepriteTag[] = [];
+  frames.forEach((frame, index) => {
+    if (!frame.tag) return;
+    const last = tags[tags.length - 1];
+    if (last && last.name === frame.tag && last.to === index - 1) {
+      last.to = index;
+    } else {
+      tags.push({ name: frame.tag, from: index, to: index, direction: 'forward' });
+    }
+  });
+  return tags;
+};
+
+/**
+ * Writes an Aseprite-compatible JSON (hash layout) describing the frames
+ * as regions of the original sheet.
+ */
+export const toAsepriteJson = (
+  frames: ProcessedFrame[],
+  image: UploadedImage,
+  sheetFileName: string,
+  defaultDuration: number
+): string => {
+  const entries = frames.map(frame => {
+    const { x, y, width, height } = frame.sourceRect;
+    return [getFrameName(frame), {
+      frame: { x, y, w: width, h: height },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+      sourceSize: { w: width, h: height },
+      duration: frame.duration ?? defaultDuration
+    }];
+  });
+
+  return JSON.stringify({
+    frames: Object.fromEntries(entries),
+    meta: {
+      app: 'Spricut',
+      version: '1.0',
+      image: sheetFileName,
+      format: 'RGBA8888',
+      size: { w: image.originalWidth, h: image.originalHeight },
+      scale: '1',
+      frameTags: buildFrameTags(frames),
+      layers: [],
+      slices: []
+    }
+  }, null, 2);
+};
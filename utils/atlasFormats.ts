@@ -0,0 +1,118 @@
+import { AtlasFrame, AtlasPage } from '../types';
+
+export type AtlasJsonLayout = 'hash' | 'array';
+
+const APP_NAME = 'Spricut';
+
+/**
+ * Frame entry shared by the TexturePacker "hash" and "array" layouts.
+ */
+const toTexturePackerFrame = (frame: AtlasFrame) => ({
+  frame: { x: frame.frame.x, y: frame.frame.y, w: frame.frame.width, h: frame.frame.height },
+  rotated: frame.rotated,
+  trimmed: frame.trimmed,
+  spriteSourceSize: {
+    x: frame.spriteSourceSize.x,
+    y: frame.spriteSourceSize.y,
+    w: frame.spriteSourceSize.width,
+    h: frame.spriteSourceSize.height
+  },
+  sourceSize: { w: frame.sourceSize.width, h: frame.sourceSize.height }
+});
+
+/**
+ * Serializes an atlas page as TexturePacker JSON (loadable by Phaser and PixiJS).
+ */
+export const toTexturePackerJson = (
+  page: AtlasPage,
+  imageName: string,
+  layout: AtlasJsonLayout
+): string => {
+  const frames = layout === 'hash'
+    ? Object.fromEntries(page.frames.map(frame => [frame.name, toTexturePackerFrame(frame)]))
+    : page.frames.map(frame => ({ filename: frame.name, ...toTexturePackerFrame(frame) }));
+
+  return JSON.stringify({
+    frames,
+    meta: {
+      app: APP_NAME,
+      version: '1.0',
+      image: imageName,
+      format: 'RGBA8888',
+      size: { w: page.width, h: page.height },
+      scale: '1'
+    }
+  }, null, 2);
+};
+
+/**
+ * Serializes all atlas pages as a LibGDX TextureAtlas text file.
+ * LibGDX measures the trim offset from the bottom-left corner.
+ */
+export const toLibGdxAtlas = (pages: AtlasPage[], imageNames: string[]): string => {
+  const lines: string[] = [];
+
+  pages.forEach((page, i) => {
+    lines.push(
+      '',
+      imageNames[i],
+      `size: ${page.width}, ${page.height}`,
+      'format: RGBA8888',
+      'filter: Nearest, Nearest',
+      'repeat: none'
+    );
+
+    page.frames.forEach(frame => {
+      const offsetX = frame.spriteSourceSize.x;
+      const offsetY = frame.sourceSize.height - frame.spriteSourceSize.y - frame.spriteSourceSize.height;
+      lines.push(
+        frame.name,
+        `  rotate: ${frame.rotated}`,
+        `  xy: ${frame.frame.x}, ${frame.frame.y}`,
+        `  size: ${frame.frame.width}, ${frame.frame.height}`,
+        `  orig: ${frame.sourceSize.width}, ${frame.sourceSize.height}`,
+        `  offset: ${offsetX}, ${offsetY}`,
+        '  index: -1'
+      );
+    });
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Serializes an atlas page as Starling/Sparrow TextureAtlas XML.
+ * The frame* attributes are only written for trimmed frames, as Starling expects.
+ */
+export const toStarlingXml = (page: AtlasPage, imageName: string): string => {
+  const subTextures = page.frames.map(frame => {
+    const attrs = [
+      `name="${escapeXml(frame.name)}"`,
+      `x="${frame.frame.x}"`,
+      `y="${frame.frame.y}"`,
+      `width="${frame.frame.width}"`,
+      `height="${frame.frame.height}"`
+    ];
+    if (frame.trimmed) {
+      attrs.push(
+        `frameX="${-frame.spriteSourceSize.x}"`,
+        `frameY="${-frame.spriteSourceSize.y}"`,
+        `frameWidth="${frame.sourceSize.width}"`,
+        `frameHeight="${frame.sourceSize.height}"`
+      );
+    }
+    attrs.push(`rotated="${frame.rotated}"`);
+    return `  <SubTexture ${attrs.join(' ')}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<TextureAtlas imagePath="${escapeXml(imageName)}">`,
+    ...subTextures,
+    '</TextureAtlas>',
+    ''
+  ].join('\n');
+};
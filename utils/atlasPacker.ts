@@ -0,0 +1,327 @@
+import { AtlasFrame, AtlasOptions, AtlasPage, Dimensions, ProcessedFrame, Rect } from '../types';
+import { loadImage } from './spriteUtils';
+import { getFrameName } from './exportUtils';
+
+interface PackItem {
+  order: number;
+  name: string;
+  image: HTMLImageElement;
+  trimRect: Rect; // Area of the frame image that ends up on the page
+  sourceSize: Dimensions;
+  packWidth: number; // Footprint including extrusion and padding
+  packHeight: number;
+}
+
+interface Placement {
+  item: PackItem;
+  x: number;
+  y: number;
+}
+
+interface MaxRectsBin {
+  width: number;
+  height: number;
+  freeRects: Rect[];
+}
+
+/**
+ * Finds the bounding box of the non-transparent pixels of an image.
+ * Fully transparent images collapse to a single pixel.
+ */
+const getTrimRect = (img: HTMLImageElement): Rect => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { x: 0, y: 0, width: img.width, height: img.height };
+
+  ctx.drawImage(img, 0, 0);
+  const data = ctx.getImageData(0, 0, img.width, img.height).data;
+
+  let minX = img.width, minY = img.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < img.height; y++) {
+    for (let x = 0; x < img.width; x++) {
+      if (data[(y * img.width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (maxX < 0) return { x: 0, y: 0, width: 1, height: 1 };
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const intersects = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+const contains = (outer: Rect, inner: Rect) =>
+  inner.x >= outer.x && inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+/**
+ * Best Short Side Fit: picks the free rect that leaves the smallest leftover on its shorter side.
+ */
+const findPosition = (bin: MaxRectsBin, width: number, height: number): Rect | null => {
+  let best: Rect | null = null;
+  let bestShort = Infinity;
+  let bestLong = Infinity;
+
+  for (const free of bin.freeRects) {
+    if (free.width < width || free.height < height) continue;
+    const leftoverX = free.width - width;
+    const leftoverY = free.height - height;
+    const shortSide = Math.min(leftoverX, leftoverY);
+    const longSide = Math.max(leftoverX, leftoverY);
+    if (shortSide < bestShort || (shortSide === bestShort && longSide < bestLong)) {
+      best = { x: free.x, y: free.y, width, height };
+      bestShort = shortSide;
+      bestLong = longSide;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Splits every free rect overlapping the used area into up to four maximal rects,
+ * then drops the ones fully contained in another.
+ */
+const placeRect = (bin: MaxRectsBin, used: Rect) => {
+  const next: Rect[] = [];
+
+  for (const free of bin.freeRects) {
+    if (!intersects(free, used)) {
+      next.push(free);
+      continue;
+    }
+    if (used.x > free.x) {
+      next.push({ x: free.x, y: free.y, width: used.x - free.x, height: free.height });
+    }
+    if (used.x + used.width < free.x + free.width) {
+      next.push({
+        x: used.x + used.width,
+        y: free.y,
+        width: free.x + free.width - (used.x + used.width),
+        height: free.height
+      });
+    }
+    if (used.y > free.y) {
+      next.push({ x: free.x, y: free.y, width: free.width, height: used.y - free.y });
+    }
+    if (used.y + used.height < free.y + free.height) {
+      next.push({
+        x: free.x,
+        y: used.y + used.height,
+        width: free.width,
+        height: free.y + free.height - (used.y + used.height)
+      });
+    }
+  }
+
+  bin.freeRects = next.filter((rect, i) =>
+    !next.some((other, j) => j !== i && contains(other, rect) && (!contains(rect, other) || j < i))
+  );
+};
+
+/**
+ * Packs as many items as possible into a single page of the given size.
+ */
+const packPage = (items: PackItem[], width: number, height: number, padding: number) => {
+  // The trailing padding of the last column/row may hang outside the page
+  const bin: MaxRectsBin = {
+    width: width + padding,
+    height: height + padding,
+    freeRects: [{ x: 0, y: 0, width: width + padding, height: height + padding }]
+  };
+  const placements: Placement[] = [];
+  const remaining: PackItem[] = [];
+
+  items.forEach(item => {
+    const spot = findPosition(bin, item.packWidth, item.packHeight);
+    if (!spot) {
+      remaining.push(item);
+      return;
+    }
+    placeRect(bin, spot);
+    placements.push({ item, x: spot.x, y: spot.y });
+  });
+
+  return { placements, remaining };
+};
+
+const nextPowerOfTwo = (value: number) => {
+  let size = 1;
+  while (size < value) size *= 2;
+  return size;
+};
+
+/**
+ * Page sizes worth trying for the given items, smallest area first.
+ */
+const getCandidateSizes = (items: PackItem[], options: AtlasOptions): Dimensions[] => {
+  const { maxSize, padding, powerOfTwo } = options;
+  const area = items.reduce((sum, item) => sum + item.packWidth * item.packHeight, 0);
+  const minWidth = Math.max(...items.map(item => item.packWidth - padding));
+  const minHeight = Math.max(...items.map(item => item.packHeight - padding));
+  const sizes: Dimensions[] = [];
+
+  if (powerOfTwo) {
+    for (let w = nextPowerOfTwo(minWidth); w <= maxSize; w *= 2) {
+      for (let h = nextPowerOfTwo(minHeight); h <= maxSize; h *= 2) {
+        if (w * h >= area) sizes.push({ width: w, height: h });
+      }
+    }
+    return sizes.sort((a, b) =>
+      a.width * a.height - b.width * b.height || Math.abs(a.width - a.height) - Math.abs(b.width - b.height)
+    );
+  }
+
+  let side = Math.max(minWidth, minHeight, Math.ceil(Math.sqrt(area)));
+  while (side < maxSize) {
+    sizes.push({ width: Math.max(side, minWidth), height: Math.max(side, minHeight) });
+    side = Math.ceil(side * 1.1);
+  }
+  sizes.push({ width: maxSize, height: maxSize });
+  return sizes;
+};
+
+/**
+ * Repeats the outermost pixels of a sprite around it to avoid texture bleeding.
+ */
+const drawExtrusion = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  src: Rect,
+  dx: number,
+  dy: number,
+  extrude: number
+) => {
+  const { x: sx, y: sy, width: w, height: h } = src;
+  const right = sx + w - 1;
+  const bottom = sy + h - 1;
+
+  // Edges
+  ctx.drawImage(img, sx, sy, w, 1, dx, dy - extrude, w, extrude);
+  ctx.drawImage(img, sx, bottom, w, 1, dx, dy + h, w, extrude);
+  ctx.drawImage(img, sx, sy, 1, h, dx - extrude, dy, extrude, h);
+  ctx.drawImage(img, right, sy, 1, h, dx + w, dy, extrude, h);
+
+  // Corners
+  ctx.drawImage(img, sx, sy, 1, 1, dx - extrude, dy - extrude, extrude, extrude);
+  ctx.drawImage(img, right, sy, 1, 1, dx + w, dy - extrude, extrude, extrude);
+  ctx.drawImage(img, sx, bottom, 1, 1, dx - extrude, dy + h, extrude, extrude);
+  ctx.drawImage(img, right, bottom, 1, 1, dx + w, dy + h, extrude, extrude);
+};
+
+/**
+ * Draws the placed sprites onto a page and builds its frame metadata.
+ */
+const renderPage = (placements: Placement[], options: AtlasOptions): AtlasPage => {
+  const { padding, extrude, powerOfTwo } = options;
+
+  let width = 1;
+  let height = 1;
+  placements.forEach(({ item, x, y }) => {
+    width = Math.max(width, x + item.packWidth - padding);
+    height = Math.max(height, y + item.packHeight - padding);
+  });
+  if (powerOfTwo) {
+    width = nextPowerOfTwo(width);
+    height = nextPowerOfTwo(height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No canvas context');
+  ctx.imageSmoothingEnabled = false;
+
+  const frames: AtlasFrame[] = [...placements]
+    .sort((a, b) => a.item.order - b.item.order)
+    .map(({ item, x, y }) => {
+      const { trimRect, sourceSize } = item;
+      const dx = x + extrude;
+      const dy = y + extrude;
+
+      ctx.drawImage(
+        item.image,
+        trimRect.x, trimRect.y, trimRect.width, trimRect.height,
+        dx, dy, trimRect.width, trimRect.height
+      );
+      if (extrude > 0) {
+        drawExtrusion(ctx, item.image, trimRect, dx, dy, extrude);
+      }
+
+      return {
+        name: item.name,
+        frame: { x: dx, y: dy, width: trimRect.width, height: trimRect.height },
+        rotated: false,
+        trimmed: trimRect.width !== sourceSize.width || trimRect.height !== sourceSize.height,
+        spriteSourceSize: { ...trimRect },
+        sourceSize: { ...sourceSize }
+      };
+    });
+
+  return { width, height, dataUrl: canvas.toDataURL('image/png'), frames };
+};
+
+/**
+ * Bin-packs the frames into one or more atlas pages using the MaxRects algorithm.
+ * Frames that do not fit in the first page overflow into additional pages.
+ */
+export const packAtlas = async (
+  frames: ProcessedFrame[],
+  options: AtlasOptions
+): Promise<AtlasPage[]> => {
+  const { maxSize, padding, extrude, trim } = options;
+
+  const items: PackItem[] = await Promise.all(frames.map(async (frame, order) => {
+    const image = await loadImage(frame.dataUrl);
+    const trimRect = trim ? getTrimRect(image) : { x: 0, y: 0, width: image.width, height: image.height };
+    return {
+      order,
+      name: getFrameName(frame),
+      image,
+      trimRect,
+      sourceSize: { width: image.width, height: image.height },
+      packWidth: trimRect.width + extrude * 2 + padding,
+      packHeight: trimRect.height + extrude * 2 + padding
+    };
+  }));
+
+  const oversized = items.find(item => item.packWidth - padding > maxSize || item.packHeight - padding > maxSize);
+  if (oversized) {
+    throw new Error(`Frame ${oversized.name} does not fit in a ${maxSize}x${maxSize} page`);
+  }
+
+  // Larger sprites first gives MaxRects a much tighter result
+  let remaining = [...items].sort((a, b) =>
+    Math.max(b.packWidth, b.packHeight) - Math.max(a.packWidth, a.packHeight) ||
+    b.packWidth * b.packHeight - a.packWidth * a.packHeight
+  );
+  const pages: AtlasPage[] = [];
+
+  while (remaining.length > 0) {
+    let result: { placements: Placement[]; remaining: PackItem[] } | null = null;
+
+    for (const size of getCandidateSizes(remaining, options)) {
+      const attempt = packPage(remaining, size.width, size.height, padding);
+      if (attempt.remaining.length === 0) {
+        result = attempt;
+        break;
+      }
+    }
+    if (!result) {
+      result = packPage(remaining, maxSize, maxSize, padding);
+    }
+
+    pages.push(renderPage(result.placements, options));
+    remaining = result.remaining;
+  }
+
+  return pages;
+};
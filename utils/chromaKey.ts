@@ -0,0 +1,102 @@
+import { KeyColor } from '../types';
+
+export type Lab = [number, number, number];
+
+export interface SoftKeyOptions {
+  softness: number; // Width in ΔE of the ramp from transparent back to opaque
+  despill: boolean; // Unmix the key color out of partially keyed pixels
+}
+
+export const DEFAULT_SOFT_KEY_TOLERANCE = 12; // ΔE; around 2.3 is a just noticeable difference
+
+// sRGB channel (0-255) to linear light
+const SRGB_TO_LINEAR = Float64Array.from({ length: 256 }, (_, v) => {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+// D65 reference white
+const WHITE_X = 0.95047;
+const WHITE_Z = 1.08883;
+
+const labF = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+const clampChannel = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+
+/**
+ * Converts an sRGB color to CIELAB (D65 white point).
+ */
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const lr = SRGB_TO_LINEAR[r];
+  const lg = SRGB_TO_LINEAR[g];
+  const lb = SRGB_TO_LINEAR[b];
+
+  const fx = labF((lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / WHITE_X);
+  const fy = labF(lr * 0.2126 + lg * 0.7152 + lb * 0.0722);
+  const fz = labF((lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / WHITE_Z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+/**
+ * CIE76 color difference: the Euclidean distance between two Lab colors.
+ */
+export const deltaE = (a: Lab, b: Lab) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const toLabKeys = (keyColors: KeyColor[]) =>
+  keyColors.map(({ color, tolerance }) => ({ color, tolerance, lab: rgbToLab(color.r, color.g, color.b) }));
+
+/**
+ * Builds a test for colors within the ΔE tolerance of any key (the fully transparent core).
+ */
+export const createDeltaEMatcher = (keyColors: KeyColor[]) => {
+  const keys = toLabKeys(keyColors);
+  return (r: number, g: number, b: number) => {
+    const lab = rgbToLab(r, g, b);
+    return keys.some(key => deltaE(lab, key.lab) <= key.tolerance);
+  };
+};
+
+/**
+ * Keys colors out of RGBA pixels in place, with soft edges.
+ * Within a key's tolerance a pixel becomes transparent; over the next `softness` ΔE its alpha
+ * ramps linearly back to opaque, so anti-aliased outlines fade instead of leaving a halo.
+ * With despill, a partially keyed pixel is treated as a mix `alpha * sprite + (1 - alpha) * key`
+ * and the key's share is removed from its color.
+ */
+export const softKeyPixels = (data: Uint8ClampedArray, keyColors: KeyColor[], options: SoftKeyOptions) => {
+  const keys = toLabKeys(keyColors);
+  const { softness, despill } = options;
+  if (keys.length === 0) return;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue; // Skip already transparent pixels
+
+    // Coverage: how much of the pixel is sprite rather than key, 0..1; the closest key wins
+    const lab = rgbToLab(data[i], data[i + 1], data[i + 2]);
+    let coverage = 1;
+    let nearest = keys[0];
+    for (const key of keys) {
+      const excess = deltaE(lab, key.lab) - key.tolerance;
+      const c = excess <= 0 ? 0 : softness > 0 ? Math.min(1, excess / softness) : 1;
+      if (c < coverage) {
+        coverage = c;
+        nearest = key;
+      }
+    }
+
+    if (coverage >= 1) continue;
+    if (coverage === 0) {
+      data[i + 3] = 0;
+      continue;
+    }
+
+    if (despill) {
+      const spill = 1 - coverage;
+      data[i] = clampChannel((data[i] - spill * nearest.color.r) / coverage);
+      data[i + 1] = clampChannel((data[i + 1] - spill * nearest.color.g) / coverage);
+      data[i + 2] = clampChannel((data[i + 2] - spill * nearest.color.b) / coverage);
+    }
+    data[i + 3] = Math.round(data[i + 3] * coverage);
+  }
+};
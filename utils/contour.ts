@@ -0,0 +1,139 @@
+import { Point } from '../types';
+
+type Direction = 'up' | 'down' | 'left' | 'right' | null;
+
+const STEP: Record<Exclude<Direction, null>, [number, number]> = {
+  up: [0, -1],
+  down: [0, 1],
+  left: [-1, 0],
+  right: [1, 0]
+};
+
+/**
+ * Traces the outer outline of a pixel region with marching squares.
+ * `inside(x, y)` tells whether a pixel belongs to the region; (startX, startY) must be its
+ * first pixel in scan order. Vertices lie on pixel corners, so the polygon encloses whole
+ * pixels. Consecutive collinear vertices are already dropped.
+ * `joinDiagonals` walks around pixels that only touch at a corner (8-connectivity).
+ */
+export const traceContour = (
+  inside: (x: number, y: number) => boolean,
+  startX: number,
+  startY: number,
+  maxSteps: number,
+  joinDiagonals = false
+): Point[] => {
+  const points: Point[] = [];
+  let x = startX;
+  let y = startY;
+  let prev: Direction = null;
+
+  for (let steps = 0; steps < maxSteps; steps++) {
+    // 2x2 neighbourhood around the corner (x, y)
+    const state =
+      (inside(x - 1, y - 1) ? 1 : 0) |
+      (inside(x, y - 1) ? 2 : 0) |
+      (inside(x - 1, y) ? 4 : 0) |
+      (inside(x, y) ? 8 : 0);
+
+    let next: Direction;
+    switch (state) {
+      case 1: case 5: case 13: next = 'up'; break;
+      case 2: case 3: case 7: next = 'right'; break;
+      case 4: case 12: case 14: next = 'left'; break;
+      case 8: case 10: case 11: next = 'down'; break;
+      // Saddles: the turn decides whether corner-touching pixels end up inside the outline
+      case 6: next = (prev === 'up') !== joinDiagonals ? 'left' : 'right'; break;
+      case 9: next = (prev === 'right') !== joinDiagonals ? 'up' : 'down'; break;
+      default: return points; // Not on an edge, nothing to trace
+    }
+
+    if (next !== prev) points.push({ x, y });
+    const [dx, dy] = STEP[next];
+    x += dx;
+    y += dy;
+    prev = next;
+
+    if (x === startX && y === startY) break;
+  }
+
+  return points;
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Douglas–Peucker simplification of an open polyline.
+ */
+const simplifyLine = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], first, last);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= tolerance) return [first, last];
+  const left = simplifyLine(points.slice(0, index + 1), tolerance);
+  const right = simplifyLine(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+/**
+ * Douglas–Peucker simplification of a closed polygon. The ring is split at the vertex
+ * farthest from the first one so both halves keep their extremes.
+ */
+export const simplifyPolygon = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 3 || tolerance <= 0) return points;
+
+  let farthest = 0;
+  let maxDistance = 0;
+  points.forEach((p, i) => {
+    const distance = Math.hypot(p.x - points[0].x, p.y - points[0].y);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      farthest = i;
+    }
+  });
+
+  const firstHalf = simplifyLine(points.slice(0, farthest + 1), tolerance);
+  const secondHalf = simplifyLine([...points.slice(farthest), points[0]], tolerance);
+  const simplified = [...firstHalf.slice(0, -1), ...secondHalf.slice(0, -1)];
+  return simplified.length >= 3 ? simplified : points;
+};
+
+/**
+ * Convex hull (monotone chain), used to join the outlines of merged islands into one mask.
+ */
+export const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length <= 3) return sorted;
+
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
@@ -0,0 +1,182 @@
+import { AtlasFrame, AtlasPage, ProcessedFrame } from '../types';
+import { packAtlas } from './atlasPacker';
+import { loadImage } from './spriteUtils';
+import { dataUrlToBase64 } from './exportUtils';
+
+export interface CssSpriteOptions {
+  prefix: string; // Base class, e.g. "sprite" -> .sprite, .sprite-frame_0
+  padding: number;
+  retina: boolean; // Also write a 2x sheet plus a high-DPI media query
+  scss: boolean; // Also write a SCSS map + mixin
+}
+
+export interface ExportFile {
+  name: string;
+  data: string;
+  base64?: boolean;
+}
+
+// Large enough for icon sheets; everything must land on a single page for CSS
+const CSS_SHEET_MAX_SIZE = 8192;
+
+/**
+ * Turns a frame name into a valid CSS class fragment.
+ */
+const toClassName = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, '-');
+
+/**
+ * Upscales a sheet by 2x with nearest-neighbour sampling (keeps pixel art crisp).
+ */
+const scaleSheet = async (dataUrl: string): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width * 2;
+  canvas.height = img.height * 2;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No canvas context');
+
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+const buildCss = (page: AtlasPage, sheetName: string, retinaName: string | null, prefix: string): string => {
+  const lines = [
+    '/* Generated by Spricut */',
+    `.${prefix} {`,
+    '  display: inline-block;',
+    `  background-image: url('${sheetName}');`,
+    '  background-repeat: no-repeat;',
+    '}',
+    ''
+  ];
+
+  if (retinaName) {
+    lines.push(
+      '@media (-webkit-min-device-pixel-ratio: 2), (min-resolution: 192dpi) {',
+      `  .${prefix} {`,
+      `    background-image: url('${retinaName}');`,
+      `    background-size: ${page.width}px ${page.height}px;`,
+      '  }',
+      '}',
+      ''
+    );
+  }
+
+  page.frames.forEach(({ name, frame }) => {
+    lines.push(
+      `.${prefix}-${toClassName(name)} {`,
+      `  width: ${frame.width}px;`,
+      `  height: ${frame.height}px;`,
+      `  background-position: ${-frame.x}px ${-frame.y}px;`,
+      '}',
+      ''
+    );
+  });
+
+  return lines.join('\n');
+};
+
+const buildScss = (page: AtlasPage, sheetName: string, prefix: string): string => {
+  const entries = page.frames.map(({ name, frame }) =>
+    `  '${toClassName(name)}': (x: ${frame.x}px, y: ${frame.y}px, width: ${frame.width}px, height: ${frame.height}px),`
+  );
+
+  return [
+    '// Generated by Spricut',
+    `$${prefix}-image: '${sheetName}';`,
+    `$${prefix}-sheet-width: ${page.width}px;`,
+    `$${prefix}-sheet-height: ${page.height}px;`,
+    '',
+    `$${prefix}s: (`,
+    ...entries,
+    ');',
+    '',
+    `@mixin ${prefix}($name) {`,
+    `  $frame: map-get($${prefix}s, $name);`,
+    '  width: map-get($frame, width);',
+    '  height: map-get($frame, height);',
+    `  background-image: url($${prefix}-image);`,
+    '  background-repeat: no-repeat;',
+    '  background-position: (0 - map-get($frame, x)) (0 - map-get($frame, y));',
+    '}',
+    ''
+  ].join('\n');
+};
+
+const buildPreviewHtml = (frames: AtlasFrame[], cssName: string, prefix: string): string => {
+  const items = frames.map(({ name }) => {
+    const className = `${prefix}-${toClassName(name)}`;
+    return [
+      '    <figure>',
+      `      <span class="${prefix} ${className}"></span>`,
+      `      <figcaption>.${className}</figcaption>`,
+      '    </figure>'
+    ].join('\n');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="pt-BR">',
+    '<head>',
+    '  <meta charset="utf-8" />',
+    `  <title>${prefix} - Preview</title>`,
+    `  <link rel="stylesheet" href="${cssName}">`,
+    '  <style>',
+    '    body { font-family: sans-serif; background: #0f172a; color: #e2e8f0; padding: 24px; }',
+    '    main { display: flex; flex-wrap: wrap; gap: 16px; }',
+    '    figure { margin: 0; padding: 12px; background: #1e293b; border-radius: 8px; text-align: center; }',
+    '    figcaption { margin-top: 8px; font-size: 11px; font-family: monospace; color: #94a3b8; }',
+    '  </style>',
+    '</head>',
+    '<body>',
+    `  <h1>${frames.length} sprites</h1>`,
+    '  <main>',
+    ...items,
+    '  </main>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Recombines the frames into a single sheet and generates the matching
+ * stylesheet(s) and an HTML preview page.
+ */
+export const buildCssSprite = async (
+  frames: ProcessedFrame[],
+  baseName: string,
+  options: CssSpriteOptions
+): Promise<ExportFile[]> => {
+  const pages = await packAtlas(frames, {
+    maxSize: CSS_SHEET_MAX_SIZE,
+    powerOfTwo: false,
+    padding: options.padding,
+    extrude: 0,
+    trim: false
+  });
+  if (pages.length > 1) {
+    throw new Error('CSS sprite frames do not fit in a single sheet');
+  }
+
+  const page = pages[0];
+  const prefix = toClassName(options.prefix) || 'sprite';
+  const sheetName = `${baseName}.png`;
+  const retinaName = options.retina ? `${baseName}@2x.png` : null;
+  const cssName = `${baseName}.css`;
+
+  const files: ExportFile[] = [
+    { name: sheetName, data: dataUrlToBase64(page.dataUrl), base64: true },
+    { name: cssName, data: buildCss(page, sheetName, retinaName, prefix) },
+    { name: 'index.html', data: buildPreviewHtml(page.frames, cssName, prefix) }
+  ];
+  if (retinaName) {
+    files.push({ name: retinaName, data: dataUrlToBase64(await scaleSheet(page.dataUrl)), base64: true });
+  }
+  if (options.scss) {
+    files.push({ name: `_${baseName}.scss`, data: buildScss(page, sheetName, prefix) });
+  }
+
+  return files;
+};
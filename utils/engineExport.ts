@@ -0,0 +1,185 @@
+import { ProcessedFrame, Rect, UploadedImage } from '../types';
+import { getBaseName, getFrameName } from './exportUtils';
+
+export interface GodotOptions {
+  resPath: string; // Project folder the files will be copied into, e.g. "res://sprites/"
+  fps: number;
+}
+
+/**
+ * File name used when the original sheet is bundled with an export.
+ * Edited sheets (magic wand) are always PNG object URLs.
+ */
+export const getSheetFileName = (image: UploadedImage): string => {
+  const extension = image.src.startsWith('data:image/jpeg') ? 'jpg' : 'png';
+  return `${getBaseName(image.file.name)}.${extension}`;
+};
+
+const randomHex = (bytes: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Builds a Godot 4 SpriteFrames resource with one AtlasTexture region per frame.
+ */
+export const toGodotSpriteFrames = (
+  frames: ProcessedFrame[],
+  sheetFileName: string,
+  options: GodotOptions
+): string => {
+  const folder = options.resPath.endsWith('/') ? options.resPath : `${options.resPath}/`;
+  const lines: string[] = [
+    `[gd_resource type="SpriteFrames" load_steps=${frames.length + 2} format=3]`,
+    '',
+    `[ext_resource type="Texture2D" path="${folder}${sheetFileName}" id="1_sheet"]`,
+    ''
+  ];
+
+  frames.forEach((frame, i) => {
+    const { x, y, width, height } = frame.sourceRect;
+    lines.push(
+      `[sub_resource type="AtlasTexture" id="AtlasTexture_${i}"]`,
+      'atlas = ExtResource("1_sheet")',
+      `region = Rect2(${x}, ${y}, ${width}, ${height})`,
+      ''
+    );
+  });
+
+  // One animation per tag; untagged frames go to "default"
+  const animations = new Map<string, string[]>();
+  frames.forEach((frame, i) => {
+    const name = frame.tag || 'default';
+    // Godot durations are relative to 1 / speed
+    const duration = frame.duration ? (frame.duration * options.fps) / 1000 : 1;
+    const entries = animations.get(name) ?? [];
+    entries.push(`{\n"duration": ${duration.toFixed(3)},\n"texture": SubResource("AtlasTexture_${i}")\n}`);
+    animations.set(name, entries);
+  });
+
+  const animationEntries = [...animations].map(([name, entries]) => [
+    '{',
+    `"frames": [${entries.join(', ')}],`,
+    '"loop": true,',
+    `"name": &"${name.replace(/"/g, '\\"')}",`,
+    `"speed": ${options.fps.toFixed(1)}`,
+    '}'
+  ].join('\n'));
+
+  lines.push('[resource]', `animations = [${animationEntries.join(', ')}]`, '');
+
+  return lines.join('\n');
+};
+
+/**
+ * Serializes a frame's polygon (lasso or traced contour) as a Unity sprite shape.
+ * Unity stores the vertices relative to the sprite rect center, with y pointing up.
+ */
+const toUnityShape = (key: 'outline' | 'physicsShape', rect: Rect): string[] => {
+  if (!rect.path || rect.path.length < 3) return [`      ${key}: []`];
+
+  const centerX = rect.x + rect.width / 2;
+  const centerY = rect.y + rect.height / 2;
+  const round = (v: number) => Math.round(v * 100) / 100; // Lasso points are sub-pixel
+  return [
+    `      ${key}:`,
+    ...rect.path.map((p, i) => `      ${i === 0 ? '- - ' : '  - '}{x: ${round(p.x - centerX)}, y: ${round(centerY - p.y)}}`)
+  ];
+};
+
+/**
+ * Builds a Unity TextureImporter .meta with spriteMode Multiple and one sprite per frame.
+ * Unity measures rects from the bottom-left corner of the texture.
+ */
+export const toUnityMeta = (frames: ProcessedFrame[], image: UploadedImage): string => {
+  const textureHeight = image.originalHeight;
+  // Same fileID scheme Unity uses for legacy sprite sheets
+  const internalIds = frames.map((_, i) => 21300000 + i * 2);
+
+  const sprites = frames.map((frame, i) => {
+    const { x, y, width, height } = frame.sourceRect;
+    return [
+      '    - serializedVersion: 2',
+      `      name: ${getFrameName(frame)}`,
+      '      rect:',
+      '        serializedVersion: 2',
+      `        x: ${x}`,
+      `        y: ${textureHeight - y - height}`,
+      `        width: ${width}`,
+      `        height: ${height}`,
+      '      alignment: 0',
+      '      pivot: {x: 0.5, y: 0.5}',
+      '      border: {x: 0, y: 0, z: 0, w: 0}',
+      ...toUnityShape('outline', frame.sourceRect),
+      ...toUnityShape('physicsShape', frame.sourceRect),
+      '      tessellationDetail: 0',
+      '      bones: []',
+      `      spriteID: ${randomHex(16)}`,
+      `      internalID: ${internalIds[i]}`,
+      '      vertices: []',
+      '      indices: ',
+      '      edges: []',
+      '      weights: []'
+    ].join('\n');
+  });
+
+  return [
+    'fileFormatVersion: 2',
+    `guid: ${randomHex(16)}`,
+    'TextureImporter:',
+    '  internalIDToNameTable: []',
+    '  externalObjects: {}',
+    '  serializedVersion: 12',
+    '  mipmaps:',
+    '    mipMapMode: 0',
+    '    enableMipMap: 0',
+    '    sRGBTexture: 1',
+    '    linearTexture: 0',
+    '  isReadable: 0',
+    '  textureFormat: 1',
+    '  maxTextureSize: 2048',
+    '  textureSettings:',
+    '    serializedVersion: 2',
+    '    filterMode: 0',
+    '    aniso: 1',
+    '    mipBias: 0',
+    '    wrapU: 1',
+    '    wrapV: 1',
+    '    wrapW: 1',
+    '  nPOTScale: 0',
+    '  lightmap: 0',
+    '  compressionQuality: 50',
+    '  spriteMode: 2',
+    '  spriteExtrude: 1',
+    '  spriteMeshType: 1',
+    '  alignment: 0',
+    '  spritePivot: {x: 0.5, y: 0.5}',
+    '  spritePixelsToUnits: 100',
+    '  spriteBorder: {x: 0, y: 0, z: 0, w: 0}',
+    '  spriteGenerateFallbackPhysicsShape: 1',
+    '  alphaUsage: 1',
+    '  alphaIsTransparency: 1',
+    '  textureType: 8',
+    '  textureShape: 1',
+    '  spriteSheet:',
+    '    serializedVersion: 2',
+    '    sprites:',
+    ...sprites,
+    '    outline: []',
+    '    physicsShape: []',
+    '    bones: []',
+    '    spriteID: ',
+    '    internalID: 0',
+    '    vertices: []',
+    '    indices: ',
+    '    edges: []',
+    '    weights: []',
+    '    secondaryTextures: []',
+    '    nameFileIdTable:',
+    ...frames.map((frame, i) => `      ${getFrameName(frame)}: ${internalIds[i]}`),
+    '  spritePackingTag: ',
+    '  pSDRemoveMatte: 0',
+    '  userData: ',
+    '  assetBundleName: ',
+    '  assetBundleVariant: ',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,70 @@
+import { ProcessedFrame } from '../types';
+import { loadImage } from './spriteUtils';
+
+/**
+ * Returns the uploaded file name without its extension.
+ */
+export const getBaseName = (fileName: string): string => fileName.split('.')[0];
+
+/**
+ * Name used for a frame in every export (ZIP entries, atlas keys...).
+ * Falls back to the legacy `frame_<id>` when no template was applied.
+ */
+export const getFrameName = (frame: ProcessedFrame): string => frame.name ?? `frame_${frame.id}`;
+
+/**
+ * Per-frame delays in ms, using the frame's own duration when it has one.
+ */
+export const getFrameDelays = (frames: ProcessedFrame[], defaultDelay: number): number[] =>
+  frames.map(frame => frame.duration ?? defaultDelay);
+
+/**
+ * Extracts the raw base64 payload from a Data URL.
+ */
+export const dataUrlToBase64 = (dataUrl: string): string => dataUrl.split(',')[1];
+
+/**
+ * Decodes a base64 Data URL into raw bytes.
+ */
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrlToBase64(dataUrl));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Triggers a browser download for the given blob.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
+
+/**
+ * Decodes every frame into ImageData on a shared canvas sized to the largest frame.
+ * Smaller frames are anchored at the top-left corner.
+ */
+export const getFramesImageData = async (frames: ProcessedFrame[]): Promise<ImageData[]> => {
+  const images = await Promise.all(frames.map(frame => loadImage(frame.dataUrl)));
+  const width = Math.max(1, ...images.map(img => img.width));
+  const height = Math.max(1, ...images.map(img => img.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('No canvas context');
+
+  return images.map(img => {
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0);
+    return ctx.getImageData(0, 0, width, height);
+  });
+};
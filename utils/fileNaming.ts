@@ -0,0 +1,112 @@
+import { ProcessedFrame } from '../types';
+
+export type FolderLayout = 'flat' | 'row' | 'tag';
+
+export interface NamingOptions {
+  template: string;
+  folderLayout: FolderLayout;
+}
+
+export interface FrameFileName {
+  name: string; // File name without extension
+  folder: string; // Sub folder inside the ZIP ('' for the root)
+  path: string; // folder + name, also used as the frame key in data exports
+}
+
+export const DEFAULT_NAMING: NamingOptions = {
+  template: 'frame_{id}',
+  folderLayout: 'flat'
+};
+
+export const NAMING_TOKENS = ['name', 'index', 'id', 'row', 'col', 'tag', 'w', 'h'];
+
+const UNTAGGED = 'default';
+
+/**
+ * Row/column of each frame. Grid frames know their cell; for free-form rects
+ * rows are bands of vertically overlapping rects, read left to right.
+ */
+const getGridPositions = (frames: ProcessedFrame[]): { row: number; col: number }[] => {
+  if (frames.every(frame => frame.row !== undefined && frame.col !== undefined)) {
+    return frames.map(frame => ({ row: frame.row!, col: frame.col! }));
+  }
+
+  const order = frames
+    .map((frame, index) => ({ index, rect: frame.sourceRect }))
+    .sort((a, b) => a.rect.y - b.rect.y);
+
+  const rows: { bottom: number; members: typeof order }[] = [];
+  order.forEach(entry => {
+    const current = rows[rows.length - 1];
+    const centerY = entry.rect.y + entry.rect.height / 2;
+    if (current && centerY < current.bottom) {
+      current.members.push(entry);
+      current.bottom = Math.max(current.bottom, entry.rect.y + entry.rect.height);
+    } else {
+      rows.push({ bottom: entry.rect.y + entry.rect.height, members: [entry] });
+    }
+  });
+
+  const positions: { row: number; col: number }[] = new Array(frames.length);
+  rows.forEach((row, rowIndex) => {
+    row.members
+      .sort((a, b) => a.rect.x - b.rect.x)
+      .forEach((entry, colIndex) => {
+        positions[entry.index] = { row: rowIndex, col: colIndex };
+      });
+  });
+  return positions;
+};
+
+/**
+ * Replaces `{token}` / `{token:03}` placeholders. Numbers get zero padded to the given width.
+ */
+export const formatTemplate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)(?::(\d+))?\}/g, (match, token: string, pad?: string) => {
+    if (!(token in values)) return match;
+    const value = values[token];
+    if (pad && typeof value === 'number') return String(value).padStart(parseInt(pad, 10), '0');
+    return String(value);
+  });
+
+// Characters that are not allowed in file names on common file systems
+const sanitize = (value: string) => value.replace(/[\\/:*?"<>|]/g, '_').trim();
+
+/**
+ * Resolves the export name and folder of every frame.
+ * Duplicate names inside the same folder get a numeric suffix.
+ */
+export const buildFrameFileNames = (
+  frames: ProcessedFrame[],
+  sheetName: string,
+  options: NamingOptions
+): FrameFileName[] => {
+  const positions = getGridPositions(frames);
+  const used = new Set<string>();
+
+  return frames.map((frame, index) => {
+    const { row, col } = positions[index];
+    const tag = frame.tag || UNTAGGED;
+
+    let name = sanitize(formatTemplate(options.template, {
+      name: sheetName,
+      index,
+      id: frame.id,
+      row,
+      col,
+      tag,
+      w: frame.width,
+      h: frame.height
+    })) || `frame_${frame.id}`;
+
+    let folder = '';
+    if (options.folderLayout === 'row') folder = `row_${row}/`;
+    else if (options.folderLayout === 'tag') folder = `${sanitize(tag)}/`;
+
+    const baseName = name;
+    for (let n = 1; used.has(`${folder}${name}`); n++) name = `${baseName}_${n}`;
+    used.add(`${folder}${name}`);
+
+    return { name, folder, path: `${folder}${name}` };
+  });
+};
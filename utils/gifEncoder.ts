@@ -0,0 +1,282 @@
+import { AnimationOptions, ProcessedFrame } from '../types';
+import { getFrameDelays, getFramesImageData } from './exportUtils';
+
+interface Palette {
+  colors: number[]; // Packed 0xRRGGBB entries
+  transparentIndex: number; // -1 when the frame has no transparent pixels
+}
+
+// Pixels below this alpha become the transparent index (GIF only has 1-bit alpha)
+const ALPHA_CUTOFF = 128;
+const MAX_COLORS = 255; // One slot is reserved for transparency
+
+/**
+ * Reduces a set of weighted colors to at most `maxColors` using median cut.
+ */
+const medianCut = (histogram: Map<number, number>, maxColors: number): number[] => {
+  type Box = { colors: number[]; range: number; channel: number };
+
+  const channel = (color: number, c: number) => (color >> (16 - c * 8)) & 0xff;
+
+  const makeBox = (colors: number[]): Box => {
+    let best = { range: -1, channel: 0 };
+    for (let c = 0; c < 3; c++) {
+      let min = 255, max = 0;
+      for (const color of colors) {
+        const v = channel(color, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      }
+      if (max - min > best.range) best = { range: max - min, channel: c };
+    }
+    return { colors, ...best };
+  };
+
+  const boxes: Box[] = [makeBox([...histogram.keys()])];
+
+  while (boxes.length < maxColors) {
+    // Split the widest box that still has more than one color
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].colors.length > 1 && (target === -1 || boxes[i].range > boxes[target].range)) target = i;
+    }
+    if (target === -1) break;
+
+    const box = boxes[target];
+    box.colors.sort((a, b) => channel(a, box.channel) - channel(b, box.channel));
+
+    // Weighted median so busy colors get more palette entries
+    const total = box.colors.reduce((sum, color) => sum + histogram.get(color)!, 0);
+    let acc = 0;
+    let split = 1;
+    for (let i = 0; i < box.colors.length - 1; i++) {
+      acc += histogram.get(box.colors[i])!;
+      if (acc >= total / 2) {
+        split = i + 1;
+        break;
+      }
+    }
+
+    boxes.splice(target, 1, makeBox(box.colors.slice(0, split)), makeBox(box.colors.slice(split)));
+  }
+
+  return boxes.map(box => {
+    let r = 0, g = 0, b = 0, weight = 0;
+    for (const color of box.colors) {
+      const count = histogram.get(color)!;
+      r += channel(color, 0) * count;
+      g += channel(color, 1) * count;
+      b += channel(color, 2) * count;
+      weight += count;
+    }
+    return (Math.round(r / weight) << 16) | (Math.round(g / weight) << 8) | Math.round(b / weight);
+  });
+};
+
+/**
+ * Builds a palette for one frame and maps its pixels to palette indices.
+ * Pixel art usually fits exactly; otherwise colors are reduced with median cut.
+ */
+const quantizeFrame = (imageData: ImageData): { palette: Palette; indices: Uint8Array } => {
+  const { data } = imageData;
+  const pixelCount = data.length / 4;
+  const histogram = new Map<number, number>();
+  let hasTransparency = false;
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (data[i * 4 + 3] < ALPHA_CUTOFF) {
+      // Keyed-out pixels keep their old RGB; they must not take palette slots
+      hasTransparency = true;
+      continue;
+    }
+    const color = (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2];
+    histogram.set(color, (histogram.get(color) || 0) + 1);
+  }
+
+  let colors: number[];
+  if (histogram.size <= MAX_COLORS) {
+    colors = [...histogram.keys()];
+  } else {
+    // Bucket to 5 bits per channel first to keep median cut fast on photos
+    const reduced = new Map<number, number>();
+    histogram.forEach((count, color) => {
+      const key = color & 0xf8f8f8;
+      reduced.set(key, (reduced.get(key) || 0) + count);
+    });
+    colors = medianCut(reduced, MAX_COLORS);
+  }
+
+  const transparentIndex = hasTransparency ? colors.length : -1;
+  const lookup = new Map<number, number>();
+  const nearest = (color: number) => {
+    const cached = lookup.get(color);
+    if (cached !== undefined) return cached;
+
+    const r = color >> 16, g = (color >> 8) & 0xff, b = color & 0xff;
+    let best = 0, bestDist = Infinity;
+    for (let i = 0; i < colors.length; i++) {
+      const dr = r - (colors[i] >> 16);
+      const dg = g - ((colors[i] >> 8) & 0xff);
+      const db = b - (colors[i] & 0xff);
+      const dist = dr * dr + dg * dg + db * db;
+      if (dist < bestDist) {
+        best = i;
+        bestDist = dist;
+      }
+    }
+    lookup.set(color, best);
+    return best;
+  };
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    if (data[i * 4 + 3] < ALPHA_CUTOFF) {
+      indices[i] = transparentIndex;
+    } else {
+      indices[i] = nearest((data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2]);
+    }
+  }
+
+  return { palette: { colors, transparentIndex }, indices };
+};
+
+/**
+ * GIF flavoured LZW compression (variable code size, LSB-first bit packing).
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): number[] => {
+  const out: number[] = [];
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(eoiCode);
+    if (bitCount > 0) out.push(bitBuffer & 0xff);
+    return out;
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === 4096) {
+      // Table is full: reset the dictionary
+      emit(clearCode);
+      table = new Map();
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      // The decoder grows its code size one entry later, so check before inserting
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(eoiCode);
+  if (bitCount > 0) out.push(bitBuffer & 0xff);
+  return out;
+};
+
+/**
+ * Encodes RGBA frames (all of the same size) into an animated GIF89a file.
+ * `delays` holds one duration in ms per frame; `loopCount` 0 loops forever.
+ */
+export const encodeGif = (frames: ImageData[], delays: number[], loopCount: number): Uint8Array => {
+  const bytes: number[] = [];
+  const writeShort = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+  const writeString = (value: string) => {
+    for (let i = 0; i < value.length; i++) bytes.push(value.charCodeAt(i));
+  };
+
+  const width = frames[0]?.width ?? 1;
+  const height = frames[0]?.height ?? 1;
+
+  // Header + Logical Screen Descriptor (no global color table)
+  writeString('GIF89a');
+  writeShort(width);
+  writeShort(height);
+  bytes.push(0x00, 0x00, 0x00);
+
+  // NETSCAPE2.0 extension counts repeats after the first play; without it the GIF plays once
+  if (loopCount !== 1) {
+    bytes.push(0x21, 0xff, 0x0b);
+    writeString('NETSCAPE2.0');
+    bytes.push(0x03, 0x01);
+    writeShort(loopCount === 0 ? 0 : loopCount - 1);
+    bytes.push(0x00);
+  }
+
+  frames.forEach((frame, frameIndex) => {
+    const { palette, indices } = quantizeFrame(frame);
+    const entries = palette.colors.length + (palette.transparentIndex >= 0 ? 1 : 0);
+    let tableBits = 1;
+    while ((1 << tableBits) < entries) tableBits++;
+
+    // Graphic Control Extension: restore to background so transparent areas do not show the previous frame
+    const hasTransparency = palette.transparentIndex >= 0;
+    bytes.push(0x21, 0xf9, 0x04, (2 << 2) | (hasTransparency ? 1 : 0));
+    // Browsers bump delays under 20ms to 100ms, so clamp to the smallest reliable value
+    writeShort(Math.max(2, Math.round(delays[frameIndex] / 10)));
+    bytes.push(hasTransparency ? palette.transparentIndex : 0, 0x00);
+
+    // Image Descriptor with a local color table
+    bytes.push(0x2c);
+    writeShort(0);
+    writeShort(0);
+    writeShort(frame.width);
+    writeShort(frame.height);
+    bytes.push(0x80 | (tableBits - 1));
+
+    for (let i = 0; i < (1 << tableBits); i++) {
+      const color = palette.colors[i] ?? 0;
+      bytes.push(color >> 16, (color >> 8) & 0xff, color & 0xff);
+    }
+
+    // Image data in 255-byte sub-blocks
+    const minCodeSize = Math.max(2, tableBits);
+    const compressed = lzwEncode(indices, minCodeSize);
+    bytes.push(minCodeSize);
+    for (let i = 0; i < compressed.length; i += 255) {
+      const block = compressed.slice(i, i + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0x00);
+  });
+
+  bytes.push(0x3b); // Trailer
+  return Uint8Array.from(bytes);
+};
+
+/**
+ * Renders the processed frames as an animated GIF blob.
+ */
+export const framesToGif = async (frames: ProcessedFrame[], options: AnimationOptions): Promise<Blob> => {
+  const imageData = await getFramesImageData(frames);
+  const delays = getFrameDelays(frames, options.delay);
+  return new Blob([encodeGif(imageData, delays, options.loopCount)], { type: 'image/gif' });
+};
@@ -0,0 +1,230 @@
+import { Dimensions, Rect } from '../types';
+
+export interface GridProposal {
+  cellWidth: number;
+  cellHeight: number;
+  offsetX: number;
+  offsetY: number;
+  spacingX: number;
+  spacingY: number;
+  rows: number;
+  cols: number;
+  confidence: number; // 0-1, share of sprites that land inside exactly one cell
+}
+
+interface AxisGrid {
+  cell: number;
+  offset: number;
+  spacing: number;
+  count: number;
+  period: number | null; // null when the axis has a single band of content
+  error: number; // How badly the band distances match the period (0 = perfect)
+}
+
+interface Gutter {
+  spacing: number;
+  margin: number;
+}
+
+interface Span {
+  start: number;
+  end: number; // Exclusive
+}
+
+const MIN_CELL = 4;
+const MAX_SPACING = 4;
+// A period is accepted when band distances are within this fraction of a whole multiple
+const PERIOD_TOLERANCE = 0.12;
+
+/**
+ * Projects the sprites onto one axis and merges overlapping spans.
+ * The gaps between the resulting bands are the empty (transparent or background) gutters.
+ */
+const getBands = (rects: Rect[], axis: 'x' | 'y'): Span[] => {
+  const spans = rects
+    .map(rect => axis === 'x'
+      ? { start: rect.x, end: rect.x + rect.width }
+      : { start: rect.y, end: rect.y + rect.height })
+    .sort((a, b) => a.start - b.start);
+
+  const bands: Span[] = [];
+  spans.forEach(span => {
+    const last = bands[bands.length - 1];
+    if (last && span.start < last.end) last.end = Math.max(last.end, span.end);
+    else bands.push({ ...span });
+  });
+  return bands;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Mean distance of the band distances from whole multiples of the period.
+ * Two bands closer than half a period would share a cell, which counts as a full miss.
+ */
+const periodError = (diffs: number[], period: number) =>
+  diffs.reduce((sum, d) => {
+    const multiple = Math.round(d / period);
+    return sum + (multiple === 0 ? 0.5 : Math.abs(d / period - multiple));
+  }, 0) / diffs.length;
+
+/**
+ * Least-squares slope of the band centers over their cell index, which evens out
+ * sprites that are not perfectly centered in their cells.
+ */
+const refinePeriod = (centers: number[], period: number) => {
+  const steps = centers.map(c => Math.round((c - centers[0]) / period));
+  const meanStep = steps.reduce((a, b) => a + b, 0) / steps.length;
+  const meanCenter = centers.reduce((a, b) => a + b, 0) / centers.length;
+  let num = 0, den = 0;
+  steps.forEach((step, i) => {
+    num += (step - meanStep) * (centers[i] - meanCenter);
+    den += (step - meanStep) ** 2;
+  });
+  return den > 0 ? num / den : period;
+};
+
+/**
+ * Finds the repeat distance of the bands. Every fraction of the true period also fits,
+ * so the largest period within tolerance wins.
+ */
+const findPeriod = (centers: number[]): { period: number; error: number } => {
+  const diffs = centers.slice(1).map((c, i) => c - centers[i]);
+  const candidates = new Set<number>();
+  diffs.forEach(d => {
+    for (let m = 1; m <= 4; m++) {
+      const p = Math.round(d / m);
+      if (p >= MIN_CELL) candidates.add(p);
+    }
+  });
+
+  let best = { period: Math.round(median(diffs)), error: Infinity };
+  let bestFit: typeof best | null = null;
+  candidates.forEach(period => {
+    const error = periodError(diffs, period);
+    if (error < best.error) best = { period, error };
+    if (error <= PERIOD_TOLERANCE && (!bestFit || period > bestFit.period)) bestFit = { period, error };
+  });
+
+  const chosen = bestFit ?? best;
+  return { period: refinePeriod(centers, chosen.period), error: chosen.error };
+};
+
+/**
+ * Splits `length = 2 * margin + count * cell + (count - 1) * spacing` for a sheet whose
+ * cells tile the whole axis. Only the common layouts are tried (no margin, or margin equal
+ * to spacing), smallest gutter first, and margins/gutters must not cut through a sprite.
+ * `preferred` lets one axis reuse the gutter found on the other, as sheets are usually uniform.
+ */
+const splitFullTile = (length: number, count: number, bands: Span[], preferred?: Gutter) => {
+  const layouts: Gutter[] = preferred ? [preferred] : [];
+  for (let spacing = 0; spacing <= MAX_SPACING; spacing++) {
+    layouts.push({ spacing, margin: 0 });
+    if (spacing > 0) layouts.push({ spacing, margin: spacing });
+  }
+
+  for (const { spacing, margin } of layouts) {
+    const cell = (length - 2 * margin - (count - 1) * spacing) / count;
+    if (!Number.isInteger(cell) || cell < MIN_CELL) continue;
+
+    const cutsSprite = bands.some(band => {
+      const first = Math.floor((band.start - margin) / (cell + spacing));
+      const last = Math.floor((band.end - 1 - margin) / (cell + spacing));
+      const cellEnd = margin + first * (cell + spacing) + cell;
+      return band.start < margin || first !== last || band.end > cellEnd;
+    });
+    if (!cutsSprite) return { cell, spacing, margin };
+  }
+  return null;
+};
+
+const inferAxis = (bands: Span[], length: number, otherPeriod: number | null, preferred?: Gutter): AxisGrid => {
+  if (bands.length < 2) {
+    // A single band (e.g. a one-row strip): borrow the other axis' period for square-ish cells
+    if (otherPeriod) {
+      const count = Math.round(length / otherPeriod);
+      if (count >= 1 && Math.abs(length / otherPeriod - count) < 0.15) {
+        return { cell: Math.floor(length / count), offset: 0, spacing: 0, count, period: null, error: 0 };
+      }
+    }
+    return { cell: length, offset: 0, spacing: 0, count: 1, period: null, error: 0 };
+  }
+
+  const centers = bands.map(band => (band.start + band.end) / 2);
+  const { period, error } = findPeriod(centers);
+
+  // Cells tile the whole axis: resolve margin and gutter from the image size
+  const fullCount = Math.round(length / period);
+  if (fullCount >= 1 && Math.abs(length / period - fullCount) < 0.25) {
+    const split = splitFullTile(length, fullCount, bands, preferred);
+    if (split) {
+      return { cell: split.cell, offset: split.margin, spacing: split.spacing, count: fullCount, period, error };
+    }
+  }
+
+  // Otherwise align the cells on the band centers and count until the last band
+  const cell = Math.round(period);
+  const shifts = centers.map(c => c - (Math.floor(c / cell) + 0.5) * cell);
+  const offset = Math.max(0, Math.min(bands[0].start, Math.round(median(shifts))));
+  const lastEnd = bands[bands.length - 1].end;
+  const count = Math.max(1, Math.min(Math.floor((length - offset) / cell), Math.ceil((lastEnd - offset) / cell)));
+  return { cell, offset, spacing: 0, count, period, error };
+};
+
+/**
+ * Share of sprites that fit inside a single cell of the proposed grid.
+ */
+const scoreProposal = (rects: Rect[], grid: Omit<GridProposal, 'confidence'>) => {
+  if (rects.length === 0) return 0;
+  const cellOf = (pos: number, offset: number, cell: number, spacing: number) =>
+    Math.floor((pos - offset) / (cell + spacing));
+
+  const fitting = rects.filter(rect => {
+    const col = cellOf(rect.x, grid.offsetX, grid.cellWidth, grid.spacingX);
+    const row = cellOf(rect.y, grid.offsetY, grid.cellHeight, grid.spacingY);
+    return col >= 0 && row >= 0 && col < grid.cols && row < grid.rows
+      && cellOf(rect.x + rect.width - 1, grid.offsetX, grid.cellWidth, grid.spacingX) === col
+      && cellOf(rect.y + rect.height - 1, grid.offsetY, grid.cellHeight, grid.spacingY) === row;
+  });
+  return fitting.length / rects.length;
+};
+
+/**
+ * Analyzes the sheet and proposes a uniform grid: cell size, outer offset, gutter and
+ * rows/columns. Works from the smart-detection boxes of the sheet (so background keying
+ * and dust filtering apply), the empty gutters between them and the repeat distance of the bands.
+ */
+export const inferGrid = (rects: Rect[], img: Dimensions): GridProposal | null => {
+  if (rects.length === 0) return null;
+
+  const colBands = getBands(rects, 'x');
+  const rowBands = getBands(rects, 'y');
+  const periodX = colBands.length > 1 ? findPeriod(colBands.map(b => (b.start + b.end) / 2)).period : null;
+  const periodY = rowBands.length > 1 ? findPeriod(rowBands.map(b => (b.start + b.end) / 2)).period : null;
+
+  let x = inferAxis(colBands, img.width, periodY);
+  const y = inferAxis(rowBands, img.height, periodX, x.spacing > 0 ? { spacing: x.spacing, margin: x.offset } : undefined);
+  if (x.spacing === 0 && y.spacing > 0) {
+    x = inferAxis(colBands, img.width, periodY, { spacing: y.spacing, margin: y.offset });
+  }
+
+  const grid = {
+    cellWidth: x.cell,
+    cellHeight: y.cell,
+    offsetX: x.offset,
+    offsetY: y.offset,
+    spacingX: x.spacing,
+    spacingY: y.spacing,
+    rows: y.count,
+    cols: x.count
+  };
+
+  // Irregular band distances lower the confidence even when every sprite happens to fit
+  const regularity = Math.max(0, 1 - 2 * Math.max(x.error, y.error));
+  const confidence = scoreProposal(rects, grid) * regularity * (rects.length > 1 ? 1 : 0.5);
+
+  return { ...grid, cellWidth: Math.max(1, grid.cellWidth), cellHeight: Math.max(1, grid.cellHeight), confidence };
+};
@@ -0,0 +1,91 @@
+export interface HistoryEntry<T> {
+  label: string; // Shown in the history list
+  state: T;
+  key?: string; // Consecutive edits with the same key are merged into one entry
+  timestamp: number;
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+const MAX_ENTRIES = 100;
+const MERGE_WINDOW_MS = 1000;
+
+/**
+ * Starts a history whose only entry is the given state.
+ */
+export const createHistory = <T>(state: T, label: string): History<T> => ({
+  past: [],
+  present: { label, state, timestamp: Date.now() },
+  future: []
+});
+
+/**
+ * Records a new state and drops the redo branch. Rapid edits sharing a key (slider drags,
+ * arrow nudges) replace the present entry instead of piling up.
+ */
+export const pushHistory = <T>(history: History<T>, state: T, label: string, key?: string): History<T> => {
+  if (state === history.present.state) return history;
+
+  const now = Date.now();
+  const entry: HistoryEntry<T> = { label, state, key, timestamp: now };
+  const { present } = history;
+  if (key && present.key === key && history.future.length === 0 && now - present.timestamp < MERGE_WINDOW_MS) {
+    return { ...history, present: entry };
+  }
+
+  return {
+    past: [...history.past, present].slice(-MAX_ENTRIES),
+    present: entry,
+    future: []
+  };
+};
+
+export const canUndo = <T>(history: History<T>) => history.past.length > 0;
+
+export const canRedo = <T>(history: History<T>) => history.future.length > 0;
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  if (!canUndo(history)) return history;
+  const previous = history.past[history.past.length - 1];
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  if (!canRedo(history)) return history;
+  const [next, ...future] = history.future;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future
+  };
+};
+
+/**
+ * All entries in chronological order; `index` of the present one is `past.length`.
+ */
+export const getHistoryEntries = <T>(history: History<T>): HistoryEntry<T>[] => [
+  ...history.past,
+  history.present,
+  ...history.future
+];
+
+/**
+ * Moves the present to the entry at `index` of `getHistoryEntries`.
+ */
+export const jumpToHistory = <T>(history: History<T>, index: number): History<T> => {
+  const entries = getHistoryEntries(history);
+  if (index < 0 || index >= entries.length || index === history.past.length) return history;
+  return {
+    past: entries.slice(0, index),
+    present: entries[index],
+    future: entries.slice(index + 1)
+  };
+};
@@ -0,0 +1,106 @@
+import { ProcessedFrame, Rect, SpriteConfig } from '../types';
+import {
+  PixelSource,
+  ProgressCallback,
+  DetectionOptions,
+  detectIslands,
+  detectSprites,
+  mergeNearbyRects,
+  sortRectsReadingOrder,
+  sliceFromRects,
+  sliceSpritesheet,
+  getGridRects,
+  performFloodFill,
+  applyTransparency
+} from './spriteUtils';
+
+/**
+ * Heavy pixel operations. They run inside the pixel worker, or on the main thread
+ * when the browser has no OffscreenCanvas.
+ */
+export type PixelJob =
+  | { type: 'slice'; config: SpriteConfig; manualRects: Rect[] }
+  | { type: 'detect'; options: DetectionOptions }
+  | { type: 'floodFill'; x: number; y: number }
+  | { type: 'applyMask'; mask: Uint8Array };
+
+export interface SliceResult {
+  frames: ProcessedFrame[];
+  rects: Rect[]; // Rects shown in the editor (grid cells, detected sprites or the manual ones)
+  islandRects: Rect[]; // Unmerged islands, only when smart merging grouped some of them
+}
+
+export type PixelJobResult =
+  | { type: 'slice'; result: SliceResult }
+  | { type: 'detect'; rects: Rect[] }
+  | { type: 'floodFill'; mask: Uint8Array | null }
+  | { type: 'applyMask'; blob: Blob };
+
+/**
+ * The client decodes each sheet once and transfers it with `setImage`; jobs refer to it by id.
+ * `cancel` flags running jobs, which stop at their next progress report.
+ */
+export type PixelWorkerRequest =
+  | { type: 'setImage'; imageId: number; bitmap: ImageBitmap } // Replaces (and closes) the previous sheet
+  | { type: 'run'; id: number; imageId: number; job: PixelJob }
+  | { type: 'cancel'; ids: number[] };
+
+export type PixelWorkerMessage =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; result: PixelJobResult }
+  | { id: number; type: 'error'; message: string };
+
+// Share of the progress bar used by smart detection before slicing starts
+const DETECTION_SHARE = 0.3;
+
+/**
+ * Detects/lays out the rects for the current mode and slices them into frames.
+ */
+const sliceImage = async (
+  img: PixelSource,
+  config: SpriteConfig,
+  manualRects: Rect[],
+  onProgress: ProgressCallback
+): Promise<SliceResult> => {
+  const customSize = config.useCustomSize ? { width: config.customWidth, height: config.customHeight } : undefined;
+
+  if (config.mode === 'smart') {
+    const islands = detectIslands(img, config);
+    const rects = sortRectsReadingOrder(mergeNearbyRects(islands, config), config.rowTolerance);
+    onProgress(DETECTION_SHARE);
+    const frames = await sliceFromRects(
+      img, rects, config.removeBackground, config, customSize,
+      p => onProgress(DETECTION_SHARE + p * (1 - DETECTION_SHARE))
+    );
+    return { frames, rects, islandRects: rects.length < islands.length ? islands : [] };
+  }
+
+  if (config.mode === 'manual') {
+    const frames = await sliceFromRects(img, manualRects, config.removeBackground, config, customSize, onProgress);
+    return { frames, rects: manualRects, islandRects: [] };
+  }
+
+  const frames = await sliceSpritesheet(
+    img, config, config.removeBackground, config, customSize,
+    config.skipEmptyCells ? config : undefined,
+    onProgress
+  );
+  return { frames, rects: getGridRects(img.width, img.height, config), islandRects: [] };
+};
+
+export const runPixelJob = async (
+  img: PixelSource,
+  job: PixelJob,
+  onProgress: ProgressCallback
+): Promise<PixelJobResult> => {
+  switch (job.type) {
+    case 'slice':
+      return { type: 'slice', result: await sliceImage(img, job.config, job.manualRects, onProgress) };
+    case 'detect':
+      return { type: 'detect', rects: detectSprites(img, job.options) };
+    case 'floodFill':
+      return { type: 'floodFill', mask: performFloodFill(img, job.x, job.y) };
+    case 'applyMask':
+      return { type: 'applyMask', blob: await applyTransparency(img, job.mask) };
+  }
+};
@@ -0,0 +1,54 @@
+import { runPixelJob, PixelWorkerMessage, PixelWorkerRequest } from './pixelJobs';
+
+// The sheet transferred by the client, decoded once per image
+let image: { id: number; bitmap: ImageBitmap } | null = null;
+
+// Jobs in progress, and those of them the client no longer wants
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const post = (message: PixelWorkerMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const runJob = async ({ id, imageId, job }: Extract<PixelWorkerRequest, { type: 'run' }>) => {
+  running.add(id);
+  // Checked between frames, so a stale slice stops without tearing down the worker
+  const throwIfCancelled = () => {
+    if (cancelled.has(id)) throw new Error('Pixel job cancelled');
+  };
+
+  try {
+    if (!image || image.id !== imageId) throw new Error(`Image ${imageId} is not loaded in the pixel worker`);
+    const result = await runPixelJob(image.bitmap, job, progress => {
+      throwIfCancelled();
+      post({ id, type: 'progress', progress });
+    });
+    throwIfCancelled();
+    const transfer = result.type === 'floodFill' && result.mask ? [result.mask.buffer] : [];
+    post({ id, type: 'done', result }, transfer);
+  } catch (error) {
+    if (cancelled.has(id)) return; // The client already settled cancelled jobs
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    running.delete(id);
+    cancelled.delete(id);
+  }
+};
+
+self.onmessage = (event: MessageEvent<PixelWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'setImage':
+      image?.bitmap.close();
+      image = { id: request.imageId, bitmap: request.bitmap };
+      break;
+    case 'run':
+      runJob(request);
+      break;
+    case 'cancel':
+      // Only running jobs are flagged; a job that already finished has nothing left to stop
+      request.ids.forEach(id => { if (running.has(id)) cancelled.add(id); });
+      break;
+  }
+};
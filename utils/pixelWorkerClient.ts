@@ -0,0 +1,178 @@
+import { Rect, SpriteConfig } from '../types';
+import { PixelJob, PixelJobResult, PixelWorkerMessage, PixelWorkerRequest, SliceResult, runPixelJob } from './pixelJobs';
+import { DetectionOptions, ProgressCallback, loadImage } from './spriteUtils';
+
+const CANCELLED_MESSAGE = 'Pixel job cancelled';
+
+/**
+ * True for the rejection of a job that was cancelled because a newer one replaced it.
+ */
+export const isJobCancelled = (error: unknown) =>
+  error instanceof Error && error.message === CANCELLED_MESSAGE;
+
+const supportsWorker = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+interface PendingJob {
+  request: Extract<PixelWorkerRequest, { type: 'run' }>;
+  resolve: (result: PixelJobResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+// Decodes off the main thread; the bitmap is then transferred, not copied, to the worker
+const decodeBitmap = async (src: string) => createImageBitmap(await (await fetch(src)).blob());
+
+/**
+ * Runs pixel jobs off the main thread. Each sheet is decoded once and handed to the worker
+ * as an ImageBitmap; jobs refer to it by id. `cancel` flags the running jobs, which stop at
+ * their next frame, so the worker and its decoded sheet survive config tweaks.
+ * Without OffscreenCanvas the jobs run on the main thread and `cancel` just drops the result.
+ */
+export const createPixelWorker = () => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  let nextImageId = 0;
+  let image: { src: string; id: number; ready: Promise<void> } | null = null;
+  const pending = new Map<number, PendingJob>();
+
+  const settle = (message: PixelWorkerMessage) => {
+    const job = pending.get(message.id);
+    if (!job) return;
+
+    if (message.type === 'progress') {
+      job.onProgress?.(message.progress);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'done') job.resolve(message.result);
+    else job.reject(new Error(message.message));
+  };
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('./pixelWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<PixelWorkerMessage>) => settle(event.data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        worker?.terminate();
+        worker = null;
+        image = null; // The sheet went down with the worker
+        pending.forEach(job => job.reject(new Error(event.message || 'Pixel worker crashed')));
+        pending.clear();
+      };
+    }
+    return worker;
+  };
+
+  const post = (request: PixelWorkerRequest, transfer: Transferable[] = []) => {
+    getWorker().postMessage(request, transfer);
+  };
+
+  /**
+   * Rejects the pending jobs that match and tells the worker to stop them.
+   */
+  const cancelWhere = (matches: (job: PendingJob) => boolean) => {
+    const cancelled = [...pending.entries()].filter(([, job]) => matches(job));
+    if (cancelled.length === 0) return;
+
+    cancelled.forEach(([id, job]) => {
+      pending.delete(id);
+      job.reject(new Error(CANCELLED_MESSAGE));
+    });
+    // Main-thread fallback: the results are simply dropped
+    if (worker) post({ type: 'cancel', ids: cancelled.map(([id]) => id) });
+  };
+
+  /**
+   * Rejects the pending jobs of the given type (all when omitted) and stops the work in progress.
+   */
+  const cancel = (type?: PixelJob['type']) => {
+    cancelWhere(job => !type || job.request.job.type === type);
+  };
+
+  // Sends the sheet to the worker unless it already has it
+  const useImage = (src: string) => {
+    if (image?.src === src) return image;
+
+    const id = nextImageId++;
+    cancelWhere(job => job.request.imageId !== id); // Jobs on the previous sheet are stale
+    const ready = decodeBitmap(src).then(
+      bitmap => {
+        if (image?.id !== id) {
+          bitmap.close(); // Replaced while decoding
+          return;
+        }
+        post({ type: 'setImage', imageId: id, bitmap }, [bitmap]);
+      },
+      error => {
+        if (image?.id === id) image = null; // Let the next job try again
+        throw error;
+      }
+    );
+    image = { src, id, ready };
+    return image;
+  };
+
+  const run = (src: string, job: PixelJob, onProgress?: ProgressCallback): Promise<PixelJobResult> => {
+    const id = nextId++;
+    const useWorker = supportsWorker();
+    const sheet = useWorker ? useImage(src) : null;
+    const request: PendingJob['request'] = { type: 'run', id, imageId: sheet?.id ?? -1, job };
+    const result = new Promise<PixelJobResult>((resolve, reject) => {
+      pending.set(id, { request, resolve, reject, onProgress });
+    });
+    const fail = (error: unknown) =>
+      settle({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+
+    if (sheet) {
+      sheet.ready.then(() => {
+        if (pending.has(id)) post(request);
+      }, fail);
+    } else {
+      loadImage(src)
+        .then(img => runPixelJob(img, job, progress => pending.get(id)?.onProgress?.(progress)))
+        .then(value => settle({ id, type: 'done', result: value }), fail);
+    }
+    return result;
+  };
+
+  const slice = async (
+    src: string,
+    config: SpriteConfig,
+    manualRects: Rect[],
+    onProgress?: ProgressCallback
+  ): Promise<SliceResult> => {
+    const result = await run(src, { type: 'slice', config, manualRects }, onProgress);
+    if (result.type !== 'slice') throw new Error('Unexpected pixel job result');
+    return result.result;
+  };
+
+  const detect = async (src: string, options: DetectionOptions): Promise<Rect[]> => {
+    const result = await run(src, { type: 'detect', options });
+    if (result.type !== 'detect') throw new Error('Unexpected pixel job result');
+    return result.rects;
+  };
+
+  const floodFill = async (src: string, x: number, y: number): Promise<Uint8Array | null> => {
+    const result = await run(src, { type: 'floodFill', x, y });
+    if (result.type !== 'floodFill') throw new Error('Unexpected pixel job result');
+    return result.mask;
+  };
+
+  const applyMask = async (src: string, mask: Uint8Array): Promise<Blob> => {
+    const result = await run(src, { type: 'applyMask', mask });
+    if (result.type !== 'applyMask') throw new Error('Unexpected pixel job result');
+    return result.blob;
+  };
+
+  const dispose = () => {
+    cancel();
+    worker?.terminate();
+    worker = null;
+    image = null;
+  };
+
+  return { slice, detect, floodFill, applyMask, cancel, dispose };
+};
+
+export type PixelWorkerClient = ReturnType<typeof createPixelWorker>;
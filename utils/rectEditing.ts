@@ -0,0 +1,325 @@
+import { Point, Rect } from '../types';
+import { convexHull } from './contour';
+import { getOutline } from './spriteUtils';
+
+export type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+export interface SnapOptions {
+  gridStep: number; // 0 disables grid snapping
+  edgesX: number[]; // Vertical edges to stick to (image border, neighbouring sprites)
+  edgesY: number[]; // Horizontal edges to stick to
+  threshold: number; // Max snapping distance in image pixels
+}
+
+interface Bounds {
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Position of a resize handle on the rect outline.
+ */
+export const getHandlePoint = (rect: Rect, handle: ResizeHandle): Point => {
+  const x = handle.includes('w') ? rect.x : handle.includes('e') ? rect.x + rect.width : rect.x + rect.width / 2;
+  const y = handle.includes('n') ? rect.y : handle.includes('s') ? rect.y + rect.height : rect.y + rect.height / 2;
+  return { x, y };
+};
+
+/**
+ * Handle under the point, if any. `radius` is the grab distance in image pixels.
+ */
+export const hitTestHandle = (rect: Rect, point: Point, radius: number): ResizeHandle | null => {
+  for (const handle of RESIZE_HANDLES) {
+    const p = getHandlePoint(rect, handle);
+    if (Math.abs(point.x - p.x) <= radius && Math.abs(point.y - p.y) <= radius) return handle;
+  }
+  return null;
+};
+
+/**
+ * Index of the top-most rect containing the point, or -1.
+ */
+export const hitTestRect = (rects: Rect[], point: Point): number => {
+  for (let i = rects.length - 1; i >= 0; i--) {
+    const r = rects[i];
+    if (point.x >= r.x && point.x <= r.x + r.width && point.y >= r.y && point.y <= r.y + r.height) return i;
+  }
+  return -1;
+};
+
+/**
+ * Edges a rect can snap to: the image border plus the sides of the given rects.
+ */
+export const getSnapEdges = (rects: Rect[], bounds: Bounds) => ({
+  edgesX: [0, bounds.width, ...rects.flatMap(r => [r.x, r.x + r.width])],
+  edgesY: [0, bounds.height, ...rects.flatMap(r => [r.y, r.y + r.height])]
+});
+
+/**
+ * Closest grid line or edge within the threshold, or null when nothing is close enough.
+ */
+const findSnap = (value: number, edges: number[], gridStep: number, threshold: number): number | null => {
+  let best: number | null = null;
+  let bestDistance = threshold;
+
+  const consider = (target: number) => {
+    const distance = Math.abs(target - value);
+    if (distance <= bestDistance) {
+      best = target;
+      bestDistance = distance;
+    }
+  };
+
+  if (gridStep > 0) consider(Math.round(value / gridStep) * gridStep);
+  edges.forEach(consider); // Edges win ties over the grid
+
+  return best;
+};
+
+/**
+ * Snaps a coordinate to the grid or an edge, falling back to the nearest whole pixel.
+ */
+export const snapCoordinate = (value: number, edges: number[], options: SnapOptions): number => {
+  const snapped = findSnap(value, edges, options.gridStep, options.threshold);
+  return snapped ?? Math.round(value);
+};
+
+/**
+ * Snaps a span by whichever of its two ends is closer to a target, keeping its size.
+ */
+const snapSpan = (start: number, size: number, edges: number[], options: SnapOptions): number => {
+  const startSnap = findSnap(start, edges, options.gridStep, options.threshold);
+  const endSnap = findSnap(start + size, edges, options.gridStep, options.threshold);
+  const startDelta = startSnap === null ? Infinity : startSnap - start;
+  const endDelta = endSnap === null ? Infinity : endSnap - (start + size);
+
+  if (startDelta === Infinity && endDelta === Infinity) return Math.round(start);
+  return Math.round(start + (Math.abs(startDelta) <= Math.abs(endDelta) ? startDelta : endDelta));
+};
+
+/**
+ * Rebuilds the rect with a new box, stretching its lasso path along.
+ */
+export const transformRect = (origin: Rect, box: Pick<Rect, 'x' | 'y' | 'width' | 'height'>): Rect => {
+  const next: Rect = { ...origin, x: box.x, y: box.y, width: box.width, height: box.height };
+  if (origin.path) {
+    const scaleX = origin.width > 0 ? box.width / origin.width : 1;
+    const scaleY = origin.height > 0 ? box.height / origin.height : 1;
+    next.path = origin.path.map(p => ({
+      x: box.x + (p.x - origin.x) * scaleX,
+      y: box.y + (p.y - origin.y) * scaleY
+    }));
+  }
+  return next;
+};
+
+/**
+ * Moves the rect by (dx, dy), snapping it and keeping it inside the image.
+ * Without snap options it moves by whole pixels only.
+ */
+export const moveRect = (origin: Rect, dx: number, dy: number, bounds: Bounds, snap?: SnapOptions): Rect => {
+  const rawX = origin.x + dx;
+  const rawY = origin.y + dy;
+  const x = snap ? snapSpan(rawX, origin.width, snap.edgesX, snap) : Math.round(rawX);
+  const y = snap ? snapSpan(rawY, origin.height, snap.edgesY, snap) : Math.round(rawY);
+
+  return transformRect(origin, {
+    x: clamp(x, 0, Math.max(0, bounds.width - origin.width)),
+    y: clamp(y, 0, Math.max(0, bounds.height - origin.height)),
+    width: origin.width,
+    height: origin.height
+  });
+};
+
+/**
+ * Drags one handle of the rect to the point. The opposite sides stay put and the
+ * rect never collapses below one pixel or leaves the image.
+ */
+export const resizeRect = (
+  origin: Rect,
+  handle: ResizeHandle,
+  point: Point,
+  bounds: Bounds,
+  snap: SnapOptions
+): Rect => {
+  let left = origin.x;
+  let top = origin.y;
+  let right = origin.x + origin.width;
+  let bottom = origin.y + origin.height;
+
+  if (handle.includes('w')) left = clamp(snapCoordinate(point.x, snap.edgesX, snap), 0, right - 1);
+  if (handle.includes('e')) right = clamp(snapCoordinate(point.x, snap.edgesX, snap), left + 1, bounds.width);
+  if (handle.includes('n')) top = clamp(snapCoordinate(point.y, snap.edgesY, snap), 0, bottom - 1);
+  if (handle.includes('s')) bottom = clamp(snapCoordinate(point.y, snap.edgesY, snap), top + 1, bounds.height);
+
+  return transformRect(origin, { x: left, y: top, width: right - left, height: bottom - top });
+};
+
+/**
+ * Rect spanned by two drag points, snapped and clipped to the image.
+ */
+export const rectFromPoints = (a: Point, b: Point, bounds: Bounds, snap: SnapOptions): Rect => {
+  const x1 = clamp(snapCoordinate(Math.min(a.x, b.x), snap.edgesX, snap), 0, bounds.width);
+  const x2 = clamp(snapCoordinate(Math.max(a.x, b.x), snap.edgesX, snap), 0, bounds.width);
+  const y1 = clamp(snapCoordinate(Math.min(a.y, b.y), snap.edgesY, snap), 0, bounds.height);
+  const y2 = clamp(snapCoordinate(Math.max(a.y, b.y), snap.edgesY, snap), 0, bounds.height);
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+/**
+ * Rebuilds the rect around a new path, with the bounding box covering every vertex.
+ */
+export const rectFromPath = (path: Point[], base: Partial<Rect> = {}): Rect => {
+  const xs = path.map(p => p.x);
+  const ys = path.map(p => p.y);
+  const x = Math.floor(Math.min(...xs));
+  const y = Math.floor(Math.min(...ys));
+  return {
+    ...base,
+    x,
+    y,
+    width: Math.ceil(Math.max(...xs)) - x,
+    height: Math.ceil(Math.max(...ys)) - y,
+    path
+  };
+};
+
+/**
+ * Index of the path vertex under the point, or -1.
+ */
+export const hitTestVertex = (path: Point[], point: Point, radius: number): number =>
+  path.findIndex(p => Math.abs(point.x - p.x) <= radius && Math.abs(point.y - p.y) <= radius);
+
+/**
+ * Midpoint of each edge; edge i runs from vertex i to vertex i + 1 (wrapping around).
+ */
+export const getEdgeMidpoints = (path: Point[]): Point[] =>
+  path.map((p, i) => {
+    const next = path[(i + 1) % path.length];
+    return { x: (p.x + next.x) / 2, y: (p.y + next.y) / 2 };
+  });
+
+/**
+ * Moves one vertex to the point, on whole pixels inside the image.
+ */
+export const moveVertex = (rect: Rect, index: number, point: Point, bounds: Bounds): Rect => {
+  const path = (rect.path ?? []).map((p, i) => (i === index
+    ? { x: clamp(Math.round(point.x), 0, bounds.width), y: clamp(Math.round(point.y), 0, bounds.height) }
+    : p));
+  return rectFromPath(path, rect);
+};
+
+/**
+ * Inserts a vertex so it becomes `path[index]`.
+ */
+export const insertVertex = (rect: Rect, index: number, point: Point): Rect => {
+  const path = [...(rect.path ?? [])];
+  path.splice(index, 0, point);
+  return rectFromPath(path, rect);
+};
+
+/**
+ * Drops a vertex; null when the polygon would fall below a triangle.
+ */
+export const removeVertex = (rect: Rect, index: number): Rect | null => {
+  const path = rect.path ?? [];
+  if (path.length <= 3) return null;
+  return rectFromPath(path.filter((_, i) => i !== index), rect);
+};
+
+export const isSameRect = (a: Rect, b: Rect): boolean => {
+  if (a.x !== b.x || a.y !== b.y || a.width !== b.width || a.height !== b.height) return false;
+  if (a.path === b.path) return true;
+  if (!a.path || !b.path || a.path.length !== b.path.length) return false;
+  return a.path.every((p, i) => p.x === b.path![i].x && p.y === b.path![i].y);
+};
+
+/**
+ * Union box of the rects. When any of them has a path, the merged path is the hull of
+ * every outline, like the smart-mode merge.
+ */
+export const mergeRects = (rects: Rect[]): Rect => {
+  const left = Math.min(...rects.map(r => r.x));
+  const top = Math.min(...rects.map(r => r.y));
+  const right = Math.max(...rects.map(r => r.x + r.width));
+  const bottom = Math.max(...rects.map(r => r.y + r.height));
+  const merged: Rect = { ...rects[0], x: left, y: top, width: right - left, height: bottom - top };
+
+  if (rects.some(r => r.path)) merged.path = convexHull(rects.flatMap(getOutline));
+  else delete merged.path;
+  return merged;
+};
+
+const SPLIT_AXIS_SNAP = Math.tan((5 * Math.PI) / 180); // Lines within 5° of an axis become straight
+
+/**
+ * Rounds a split line to whole pixels and straightens it when it is nearly horizontal or vertical.
+ */
+export const snapSplitLine = (a: Point, b: Point): [Point, Point] => {
+  const dx = Math.abs(b.x - a.x);
+  const dy = Math.abs(b.y - a.y);
+  if (dy <= dx * SPLIT_AXIS_SNAP) {
+    const y = Math.round((a.y + b.y) / 2);
+    return [{ x: Math.round(a.x), y }, { x: Math.round(b.x), y }];
+  }
+  if (dx <= dy * SPLIT_AXIS_SNAP) {
+    const x = Math.round((a.x + b.x) / 2);
+    return [{ x, y: Math.round(a.y) }, { x, y: Math.round(b.y) }];
+  }
+  return [{ x: Math.round(a.x), y: Math.round(a.y) }, { x: Math.round(b.x), y: Math.round(b.y) }];
+};
+
+/**
+ * Part of the polygon on the side of the line where `sign * cross >= 0` (Sutherland–Hodgman
+ * against a single half-plane, so concave outlines are fine).
+ */
+const clipToHalfPlane = (polygon: Point[], a: Point, b: Point, sign: 1 | -1): Point[] => {
+  const side = (p: Point) => sign * ((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x));
+  const result: Point[] = [];
+
+  polygon.forEach((current, i) => {
+    const next = polygon[(i + 1) % polygon.length];
+    const sc = side(current);
+    const sn = side(next);
+    if (sc >= 0) result.push(current);
+    if ((sc >= 0) !== (sn >= 0)) {
+      const t = sc / (sc - sn);
+      result.push({ x: current.x + t * (next.x - current.x), y: current.y + t * (next.y - current.y) });
+    }
+  });
+
+  // Vertices lying on the line come out twice
+  return result.filter((p, i) => {
+    const prev = result[(i + result.length - 1) % result.length];
+    return result.length === 1 || p.x !== prev.x || p.y !== prev.y;
+  });
+};
+
+const isAxisAlignedBox = (polygon: Point[]) =>
+  polygon.length === 4 &&
+  new Set(polygon.map(p => p.x)).size === 2 &&
+  new Set(polygon.map(p => p.y)).size === 2;
+
+/**
+ * Cuts the rect in two along the infinite line through a and b. Plain boxes cut straight
+ * stay plain boxes; anything else keeps the cut outline as its path. Returns [] when the
+ * line misses the rect or one side would be under a pixel thick.
+ */
+export const splitRect = (rect: Rect, a: Point, b: Point): Rect[] => {
+  if (a.x === b.x && a.y === b.y) return [];
+  const outline = getOutline(rect);
+
+  const parts = ([1, -1] as const).map(sign => clipToHalfPlane(outline, a, b, sign));
+  if (parts.some(part => part.length < 3)) return [];
+
+  const rects = parts.map(part => {
+    const next = rectFromPath(part, rect);
+    if (!rect.path && isAxisAlignedBox(part)) delete next.path;
+    return next;
+  });
+  return rects.every(r => r.width >= 1 && r.height >= 1) ? rects : [];
+};
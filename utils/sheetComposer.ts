@@ -0,0 +1,57 @@
+import { ProcessedFrame } from '../types';
+import { loadImage } from './spriteUtils';
+
+export type SheetLayout = 'grid' | 'horizontal' | 'vertical';
+
+export interface GridSheetOptions {
+  layout: SheetLayout;
+  columns: number; // Only used by the grid layout
+  spacing: number; // Gap between cells
+  margin: number; // Border around the whole sheet
+  background: string | null; // CSS color, null = transparent
+}
+
+/**
+ * Composes the frames into one uniform sheet: every cell has the size of the
+ * largest frame and frames are centered inside their cell.
+ * Returns the sheet as a PNG Data URL.
+ */
+export const composeGridSheet = async (
+  frames: ProcessedFrame[],
+  options: GridSheetOptions
+): Promise<string> => {
+  const images = await Promise.all(frames.map(frame => loadImage(frame.dataUrl)));
+  const cellWidth = Math.max(1, ...images.map(img => img.width));
+  const cellHeight = Math.max(1, ...images.map(img => img.height));
+
+  let columns = Math.max(1, Math.min(options.columns, images.length));
+  if (options.layout === 'horizontal') columns = Math.max(1, images.length);
+  else if (options.layout === 'vertical') columns = 1;
+  const rows = Math.max(1, Math.ceil(images.length / columns));
+
+  const { spacing, margin } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = margin * 2 + columns * cellWidth + (columns - 1) * spacing;
+  canvas.height = margin * 2 + rows * cellHeight + (rows - 1) * spacing;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No canvas context');
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  images.forEach((img, i) => {
+    const col = i % columns;
+    const row = Math.floor(i / columns);
+    const cellX = margin + col * (cellWidth + spacing);
+    const cellY = margin + row * (cellHeight + spacing);
+    ctx.drawImage(
+      img,
+      cellX + Math.floor((cellWidth - img.width) / 2),
+      cellY + Math.floor((cellHeight - img.height) / 2)
+    );
+  });
+
+  return canvas.toDataURL('image/png');
+};
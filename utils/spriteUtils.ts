@@ -1,4 +1,6 @@
-import { ProcessedFrame, Rect, Color } from '../types';
+import { ProcessedFrame, Rect, Color, SpriteConfig, KeyColor } from '../types';
+import { traceContour, simplifyPolygon, convexHull } from './contour';
+import { softKeyPixels, createDeltaEMatcher, DEFAULT_SOFT_KEY_TOLERANCE } from './chromaKey';
 
 /**
  * Loads an image from a source URL.
@@ -13,46 +15,147 @@ export const loadImage = (src: string): Promise<HTMLImageElement> => {
   });
 };
 
+/**
+ * Image sources the pixel helpers accept: an <img> on the main thread, an ImageBitmap in the worker.
+ */
+export type PixelSource = HTMLImageElement | ImageBitmap;
+
+export type ProgressCallback = (progress: number) => void; // 0-1
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+type AnyContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Creates a canvas; an OffscreenCanvas when there is no DOM (inside the pixel worker).
+ */
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const get2dContext = (canvas: AnyCanvas) =>
+  canvas.getContext('2d', { willReadFrequently: true }) as AnyContext | null;
+
+/**
+ * Encodes a canvas as a PNG Blob.
+ */
+const canvasToBlob = async (canvas: AnyCanvas): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type: 'image/png' });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode canvas'))), 'image/png');
+  });
+};
+
+/**
+ * Encodes a canvas as a PNG Data URL.
+ */
+const canvasToDataUrl = async (canvas: AnyCanvas): Promise<string> => {
+  if ('toDataURL' in canvas) return canvas.toDataURL('image/png');
+
+  const blob = await canvasToBlob(canvas);
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Reads every pixel of an image.
+ */
+export const getPixelData = (img: PixelSource): ImageData | null => {
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = get2dContext(canvas);
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
+
 /**
  * Helper to get the top-left pixel color of the image, assumed to be the background.
  */
-const getBackgroundColor = (img: HTMLImageElement) => {
-    const canvas = document.createElement('canvas');
-    canvas.width = 1;
-    canvas.height = 1;
-    const ctx = canvas.getContext('2d');
+const getBackgroundColor = (img: PixelSource) => {
+    const canvas = createCanvas(1, 1);
+    const ctx = get2dContext(canvas);
     if(!ctx) return null;
     ctx.drawImage(img, 0, 0);
     const data = ctx.getImageData(0,0,1,1).data;
     return { r: data[0], g: data[1], b: data[2] };
 }
 
+export const DEFAULT_KEY_TOLERANCE = 30; // Tolerance for JPEG artifacts
+
+export type KeyingOptions = Pick<SpriteConfig, 'keyColors' | 'keyingMode' | 'keySoftness' | 'despill'>;
+
+export const DEFAULT_KEYING: KeyingOptions = {
+  keyColors: [],
+  keyingMode: 'hard',
+  keySoftness: 10,
+  despill: true
+};
+
+/**
+ * Tolerance for a new key color; hard keying sums RGB differences, soft keying measures ΔE.
+ */
+export const getDefaultKeyTolerance = (mode: KeyingOptions['keyingMode']) =>
+  mode === 'soft' ? DEFAULT_SOFT_KEY_TOLERANCE : DEFAULT_KEY_TOLERANCE;
+
+/**
+ * The configured key colors, or the top-left pixel when none were picked.
+ */
+const resolveKeyColors = (img: PixelSource, keying: KeyingOptions): KeyColor[] => {
+  if (keying.keyColors.length > 0) return keying.keyColors;
+  const color = getBackgroundColor(img);
+  return color ? [{ color, tolerance: getDefaultKeyTolerance(keying.keyingMode) }] : [];
+};
+
+const matchesKeyColor = (keyColors: KeyColor[], r: number, g: number, b: number) =>
+  keyColors.some(({ color, tolerance }) =>
+    Math.abs(r - color.r) + Math.abs(g - color.g) + Math.abs(b - color.b) <= tolerance
+  );
+
+/**
+ * Converts a color to a `#rrggbb` string (for color inputs).
+ */
+export const colorToHex = (color: Color): string =>
+  '#' + [color.r, color.g, color.b].map(v => v.toString(16).padStart(2, '0')).join('');
+
 /**
- * Helper to remove a specific background color from a canvas context.
+ * Parses a `#rrggbb` string into a color.
+ */
+export const hexToColor = (hex: string): Color => {
+  const value = parseInt(hex.replace('#', ''), 16) || 0;
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+/**
+ * Helper to remove the key colors from a canvas context.
  */
 const removeBackgroundFromContext = (
-    ctx: CanvasRenderingContext2D, 
+    ctx: AnyContext, 
     width: number, 
     height: number, 
-    bgColor: {r: number, g: number, b: number}
+    keyColors: KeyColor[],
+    keying: KeyingOptions
 ) => {
     const imgData = ctx.getImageData(0, 0, width, height);
     const data = imgData.data;
-    const { r: br, g: bg, b: bb } = bgColor;
-    const tolerance = 30; // Tolerance for JPEG artifacts
-
-    for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        const a = data[i + 3];
 
-        if (a === 0) continue; // Skip already transparent pixels
+    if (keying.keyingMode === 'soft') {
+        softKeyPixels(data, keyColors, { softness: keying.keySoftness, despill: keying.despill });
+        ctx.putImageData(imgData, 0, 0);
+        return;
+    }
 
-        // Calculate simple distance
-        const diff = Math.abs(r - br) + Math.abs(g - bg) + Math.abs(b - bb);
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue; // Skip already transparent pixels
 
-        if (diff <= tolerance) {
+        if (matchesKeyColor(keyColors, data[i], data[i + 1], data[i + 2])) {
             data[i + 3] = 0; // Make transparent
         }
     }
@@ -64,22 +167,17 @@ const removeBackgroundFromContext = (
  * Returns a Uint8Array mask where 1 = selected, 0 = not selected.
  */
 export const performFloodFill = (
-    img: HTMLImageElement, 
+    img: PixelSource, 
     startX: number, 
     startY: number, 
     tolerance: number = 30
 ): Uint8Array | null => {
-    const canvas = document.createElement('canvas');
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
+    const imageData = getPixelData(img);
+    if (!imageData) return null;
     
-    ctx.drawImage(img, 0, 0);
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
     const data = imageData.data;
-    const width = canvas.width;
-    const height = canvas.height;
+    const width = imageData.width;
+    const height = imageData.height;
     
     // Check bounds
     if (startX < 0 || startX >= width || startY < 0 || startY >= height) return null;
@@ -140,17 +238,15 @@ export const performFloodFill = (
 
 /**
  * Applies a mask to an image, making selected pixels transparent.
- * Returns the new image as a Data URL.
+ * Returns the new image as a PNG Blob, which is far smaller to keep around than a Data URL.
  */
-export const applyTransparency = (
-    img: HTMLImageElement,
+export const applyTransparency = async (
+    img: PixelSource,
     mask: Uint8Array
-): string => {
-    const canvas = document.createElement('canvas');
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return img.src; // Fail safe
+): Promise<Blob> => {
+    const canvas = createCanvas(img.width, img.height);
+    const ctx = get2dContext(canvas);
+    if (!ctx) throw new Error('No canvas context');
 
     ctx.drawImage(img, 0, 0);
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
@@ -163,94 +259,206 @@ export const applyTransparency = (
     }
     
     ctx.putImageData(imageData, 0, 0);
-    return canvas.toDataURL('image/png');
+    return canvasToBlob(canvas);
 };
 
+export type DetectionOptions = Pick<
+  SpriteConfig,
+  | 'mergeDistance' | 'mergeOverlapping' | 'alphaThreshold' | 'connectivity' | 'minIslandArea' | 'minIslandSize'
+  | 'rowTolerance' | 'detectionKey' | 'detectionColor' | 'detectionTolerance' | 'traceContours' | 'contourTolerance'
+>;
+
+export const DEFAULT_DETECTION: DetectionOptions = {
+  mergeDistance: 0,
+  mergeOverlapping: false,
+  alphaThreshold: 10,
+  connectivity: 4,
+  minIslandArea: 0,
+  minIslandSize: 0,
+  rowTolerance: 10,
+  detectionKey: 'alpha',
+  detectionColor: null,
+  detectionTolerance: 30,
+  traceContours: false,
+  contourTolerance: 1
+};
+
+const NEIGHBORS_4 = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const NEIGHBORS_8 = [...NEIGHBORS_4, [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+type IslandOptions = Omit<DetectionOptions, 'mergeDistance' | 'mergeOverlapping' | 'rowTolerance'>;
+
 /**
- * Scans the image for non-transparent islands of pixels to auto-detect sprites.
+ * Scans the image for islands of foreground pixels.
+ * Foreground is non-transparent, or with 'color' keying also different enough from the
+ * background color (for JPGs and sheets on a flat magenta/teal fill).
+ * Returns one bounding box per connected island, in scan order, optionally with its
+ * simplified outline as `path`. Islands below the minimum area/size are dropped as noise.
  */
-export const detectSprites = (img: HTMLImageElement): Rect[] => {
-  const canvas = document.createElement('canvas');
-  canvas.width = img.width;
-  canvas.height = img.height;
-  const ctx = canvas.getContext('2d', { willReadFrequently: true });
-  if (!ctx) return [];
+export const detectIslands = (img: PixelSource, options: IslandOptions = DEFAULT_DETECTION): Rect[] => {
+  const imageData = getPixelData(img);
+  if (!imageData) return [];
 
-  ctx.drawImage(img, 0, 0);
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
   const data = imageData.data;
-  const width = canvas.width;
-  const height = canvas.height;
+  const width = imageData.width;
+  const height = imageData.height;
 
-  const visited = new Uint8Array(width * height);
+  const visited = new Int32Array(width * height); // Island label per pixel, 0 = unvisited
   const rects: Rect[] = [];
-
-  // Threshold for transparency (0-255)
-  const alphaThreshold = 10; 
+  let label = 0;
+
+  const { alphaThreshold, minIslandArea, minIslandSize, detectionTolerance } = options;
+  const neighbors = options.connectivity === 8 ? NEIGHBORS_8 : NEIGHBORS_4;
+  const keyColor = options.detectionKey === 'color'
+    ? options.detectionColor ?? { r: data[0], g: data[1], b: data[2] }
+    : null;
+
+  const isSolid = (pixel: number) => {
+    const i = pixel * 4;
+    if (data[i + 3] <= alphaThreshold) return false;
+    if (!keyColor) return true;
+    const diff = Math.abs(data[i] - keyColor.r) + Math.abs(data[i + 1] - keyColor.g) + Math.abs(data[i + 2] - keyColor.b);
+    return diff > detectionTolerance;
+  };
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
       const idx = y * width + x;
       if (visited[idx]) continue;
 
-      const alpha = data[idx * 4 + 3];
-      if (alpha > alphaThreshold) {
+      if (isSolid(idx)) {
         // Found a new sprite island, perform BFS/FloodFill
         let minX = x, maxX = x, minY = y, maxY = y;
+        let area = 0;
         const queue = [idx];
-        visited[idx] = 1;
+        visited[idx] = ++label;
 
         while (queue.length > 0) {
           const currIdx = queue.pop()!;
           const currX = currIdx % width;
           const currY = Math.floor(currIdx / width);
+          area++;
 
           if (currX < minX) minX = currX;
           if (currX > maxX) maxX = currX;
           if (currY < minY) minY = currY;
           if (currY > maxY) maxY = currY;
 
-          // Check neighbors (4-connectivity)
-          const neighbors = [
-            { nx: currX + 1, ny: currY },
-            { nx: currX - 1, ny: currY },
-            { nx: currX, ny: currY + 1 },
-            { nx: currX, ny: currY - 1 }
-          ];
-
-          for (const { nx, ny } of neighbors) {
+          for (const [dx, dy] of neighbors) {
+            const nx = currX + dx;
+            const ny = currY + dy;
             if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
               const nIdx = ny * width + nx;
-              if (!visited[nIdx]) {
-                const nAlpha = data[nIdx * 4 + 3];
-                if (nAlpha > alphaThreshold) {
-                  visited[nIdx] = 1;
-                  queue.push(nIdx);
-                }
+              if (!visited[nIdx] && isSolid(nIdx)) {
+                visited[nIdx] = label;
+                queue.push(nIdx);
               }
             }
           }
         }
 
-        // Add padding margin (1px) to ensure we don't clip anti-aliasing
-        rects.push({
-          x: Math.max(0, minX),
-          y: Math.max(0, minY),
-          width: Math.min(width - minX, maxX - minX + 1),
-          height: Math.min(height - minY, maxY - minY + 1)
-        });
+        const rectWidth = maxX - minX + 1;
+        const rectHeight = maxY - minY + 1;
+        if (area < minIslandArea || rectWidth < minIslandSize || rectHeight < minIslandSize) continue;
+
+        const rect: Rect = { x: minX, y: minY, width: rectWidth, height: rectHeight };
+        if (options.traceContours) {
+          // (x, y) is the island's first pixel in scan order, as the tracer expects
+          const islandLabel = label;
+          const inside = (px: number, py: number) =>
+            px >= 0 && px < width && py >= 0 && py < height && visited[py * width + px] === islandLabel;
+          const outline = traceContour(inside, x, y, 4 * (rectWidth + 1) * (rectHeight + 1), options.connectivity === 8);
+          rect.path = simplifyPolygon(outline, options.contourTolerance);
+        }
+        rects.push(rect);
+      }
+    }
+  }
+
+  return rects;
+};
+
+/**
+ * Polygon of the rect: its path, or the four corners of the box.
+ */
+export const getOutline = (rect: Rect) => rect.path ?? [
+  { x: rect.x, y: rect.y },
+  { x: rect.x + rect.width, y: rect.y },
+  { x: rect.x + rect.width, y: rect.y + rect.height },
+  { x: rect.x, y: rect.y + rect.height }
+];
+
+/**
+ * Groups islands that belong to the same sprite (detached effects, hair strands, shadows).
+ * Two boxes merge when the empty gap between them is at most `mergeDistance` px on both axes,
+ * or, with `mergeOverlapping`, whenever their boxes overlap. Repeats until nothing changes,
+ * since a merged box can reach new neighbours. Outlines of merged islands become their convex hull.
+ */
+export const mergeNearbyRects = (
+  rects: Rect[],
+  options: Pick<DetectionOptions, 'mergeDistance' | 'mergeOverlapping'>
+): Rect[] => {
+  const { mergeDistance, mergeOverlapping } = options;
+  if (mergeDistance <= 0 && !mergeOverlapping) return rects;
+
+  const shouldMerge = (a: Rect, b: Rect) => {
+    const gapX = Math.max(b.x - (a.x + a.width), a.x - (b.x + b.width));
+    const gapY = Math.max(b.y - (a.y + a.height), a.y - (b.y + b.height));
+    if (mergeOverlapping && gapX < 0 && gapY < 0) return true;
+    return mergeDistance > 0 && gapX <= mergeDistance && gapY <= mergeDistance;
+  };
+
+  let groups = rects.map(rect => ({ ...rect }));
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    const next: Rect[] = [];
+
+    for (const rect of groups) {
+      const target = next.find(other => shouldMerge(other, rect));
+      if (!target) {
+        next.push(rect);
+        continue;
       }
+      if (target.path || rect.path) {
+        // A single polygon can't hold both outlines; their hull still masks out the neighbours
+        target.path = convexHull([...getOutline(target), ...getOutline(rect)]);
+      }
+      const right = Math.max(target.x + target.width, rect.x + rect.width);
+      const bottom = Math.max(target.y + target.height, rect.y + rect.height);
+      target.x = Math.min(target.x, rect.x);
+      target.y = Math.min(target.y, rect.y);
+      target.width = right - target.x;
+      target.height = bottom - target.y;
+      changed = true;
     }
+
+    groups = next;
   }
 
-  // Sort rects (reading order: top-left to bottom-right)
-  return rects.sort((a, b) => {
+  return groups;
+};
+
+/**
+ * Sorts rects in reading order: top-left to bottom-right.
+ * Rects whose top edges are within `rowTolerance` px are read as one row.
+ */
+export const sortRectsReadingOrder = (rects: Rect[], rowTolerance = DEFAULT_DETECTION.rowTolerance): Rect[] => {
+  return [...rects].sort((a, b) => {
     const rowDiff = a.y - b.y;
-    if (Math.abs(rowDiff) > 10) return rowDiff; // Different rows
+    if (Math.abs(rowDiff) > rowTolerance) return rowDiff; // Different rows
     return a.x - b.x; // Same row, sort by X
   });
 };
 
+/**
+ * Auto-detects sprites: islands of pixels, grouped by proximity and sorted in reading order.
+ */
+export const detectSprites = (img: PixelSource, options: DetectionOptions = DEFAULT_DETECTION): Rect[] => {
+  return sortRectsReadingOrder(mergeNearbyRects(detectIslands(img, options), options), options.rowTolerance);
+};
+
 /**
  * Slices an image based on explicit rectangles.
  * Implements "Uniform Size" strategy.
@@ -259,27 +467,21 @@ export const detectSprites = (img: HTMLImageElement): Rect[] => {
  * Implements "Custom Output Dimensions" with Aspect Ratio scaling.
  */
 export const sliceFromRects = async (
-  imageSrc: string,
+  imageSrc: string | PixelSource,
   rects: Rect[],
   removeBackground: boolean = false,
-  backgroundColor: Color | null = null,
-  customSize?: { width: number, height: number }
+  keying: KeyingOptions = DEFAULT_KEYING,
+  customSize?: { width: number, height: number },
+  onProgress?: ProgressCallback
 ): Promise<ProcessedFrame[]> => {
-  const img = await loadImage(imageSrc);
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  const img = typeof imageSrc === 'string' ? await loadImage(imageSrc) : imageSrc;
+  const canvas = createCanvas(1, 1);
+  const ctx = get2dContext(canvas);
   
   if (!ctx) throw new Error('No canvas context');
 
-  // Determine Background Color if needed
-  let bgColor: {r: number, g: number, b: number} | null = null;
-  if (removeBackground) {
-      if (backgroundColor) {
-          bgColor = backgroundColor;
-      } else {
-          bgColor = getBackgroundColor(img);
-      }
-  }
+  // Determine the colors to key out if needed
+  const keys = removeBackground ? resolveKeyColors(img, keying) : [];
 
   // 1. Determine Uniform Size
   // If customSize is provided, use it. Otherwise, calculate max.
@@ -301,7 +503,8 @@ export const sliceFromRects = async (
 
   const frames: ProcessedFrame[] = [];
 
-  rects.forEach((rect, index) => {
+  for (let index = 0; index < rects.length; index++) {
+    const rect = rects[index];
     // Set canvas to uniform size
     canvas.width = finalWidth;
     canvas.height = finalHeight;
@@ -354,71 +557,160 @@ export const sliceFromRects = async (
     ctx.restore();
 
     // 4. Remove Background if enabled
-    if (removeBackground && bgColor) {
-        removeBackgroundFromContext(ctx, finalWidth, finalHeight, bgColor);
+    if (keys.length > 0) {
+        removeBackgroundFromContext(ctx, finalWidth, finalHeight, keys, keying);
     }
 
     frames.push({
       id: index,
-      dataUrl: canvas.toDataURL('image/png'),
+      dataUrl: await canvasToDataUrl(canvas),
       width: finalWidth,
       height: finalHeight,
-      sourceRect: rect
+      sourceRect: rect,
+      duration: rect.duration,
+      tag: rect.tag
     });
-  });
+    onProgress?.((index + 1) / rects.length);
+  }
 
   return frames;
 };
 
+export type EmptyCellOptions = Pick<SpriteConfig, 'alphaThreshold' | 'detectionTolerance'>;
+
 /**
- * Slices an image into frames based on rows and columns (Legacy Grid Mode).
+ * Builds a test for cells that hold nothing but transparency or the background colors
+ * (the key colors, else the top-left pixel when it is opaque).
+ */
+const createEmptyCellCheck = (
+  img: PixelSource,
+  keying: KeyingOptions,
+  options: EmptyCellOptions
+): ((rect: Rect) => boolean) => {
+  const imageData = getPixelData(img);
+  if (!imageData) return () => false;
+
+  const data = imageData.data;
+  const { alphaThreshold, detectionTolerance } = options;
+  const { keyColors } = keying;
+  const fallback = data[3] > alphaThreshold ? [{ color: { r: data[0], g: data[1], b: data[2] }, tolerance: detectionTolerance }] : [];
+  const isKeyColor = keyColors.length > 0 && keying.keyingMode === 'soft'
+    ? createDeltaEMatcher(keyColors)
+    : (r: number, g: number, b: number) => matchesKeyColor(keyColors.length > 0 ? keyColors : fallback, r, g, b);
+
+  return (rect: Rect) => {
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) {
+        const i = (y * img.width + x) * 4;
+        if (data[i + 3] <= alphaThreshold) continue;
+        if (!isKeyColor(data[i], data[i + 1], data[i + 2])) return false;
+      }
+    }
+    return true;
+  };
+};
+
+export type GridOptions = Pick<
+  SpriteConfig,
+  'rows' | 'cols' | 'gridSizing' | 'cellWidth' | 'cellHeight' | 'offsetX' | 'offsetY' | 'spacingX' | 'spacingY'
+>;
+
+/**
+ * Resolves the grid into concrete cell size and counts.
+ * In 'count' mode the cells share the space left after the offset and gutters;
+ * in 'cellSize' mode as many whole cells as fit are used.
+ */
+export const computeGridLayout = (
+  imageWidth: number,
+  imageHeight: number,
+  grid: GridOptions
+): { rows: number; cols: number; cellWidth: number; cellHeight: number } => {
+  const availableWidth = imageWidth - grid.offsetX;
+  const availableHeight = imageHeight - grid.offsetY;
+
+  if (grid.gridSizing === 'cellSize') {
+    const cellWidth = Math.max(1, grid.cellWidth);
+    const cellHeight = Math.max(1, grid.cellHeight);
+    return {
+      cols: Math.max(0, Math.floor((availableWidth + grid.spacingX) / (cellWidth + grid.spacingX))),
+      rows: Math.max(0, Math.floor((availableHeight + grid.spacingY) / (cellHeight + grid.spacingY))),
+      cellWidth,
+      cellHeight
+    };
+  }
+
+  return {
+    cols: grid.cols,
+    rows: grid.rows,
+    cellWidth: Math.floor((availableWidth - (grid.cols - 1) * grid.spacingX) / grid.cols),
+    cellHeight: Math.floor((availableHeight - (grid.rows - 1) * grid.spacingY) / grid.rows)
+  };
+};
+
+/**
+ * Returns the source rect of every grid cell, row by row.
+ */
+export const getGridRects = (imageWidth: number, imageHeight: number, grid: GridOptions): Rect[] => {
+  const { rows, cols, cellWidth, cellHeight } = computeGridLayout(imageWidth, imageHeight, grid);
+  if (cellWidth <= 0 || cellHeight <= 0) return [];
+
+  const rects: Rect[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      rects.push({
+        x: grid.offsetX + c * (cellWidth + grid.spacingX),
+        y: grid.offsetY + r * (cellHeight + grid.spacingY),
+        width: cellWidth,
+        height: cellHeight
+      });
+    }
+  }
+  return rects;
+};
+
+/**
+ * Slices an image into frames along the grid (rows/columns or cell size, with offset and gutters).
  * Supports Custom Output Size with Aspect Ratio scaling.
  */
 export const sliceSpritesheet = async (
-  imageSrc: string,
-  rows: number,
-  cols: number,
+  imageSrc: string | PixelSource,
+  grid: GridOptions,
   removeBackground: boolean = false,
-  backgroundColor: Color | null = null,
-  customSize?: { width: number, height: number }
+  keying: KeyingOptions = DEFAULT_KEYING,
+  customSize?: { width: number, height: number },
+  skipEmpty?: EmptyCellOptions,
+  onProgress?: ProgressCallback
 ): Promise<ProcessedFrame[]> => {
-  const img = await loadImage(imageSrc);
+  const img = typeof imageSrc === 'string' ? await loadImage(imageSrc) : imageSrc;
   const frames: ProcessedFrame[] = [];
 
-  const gridFrameWidth = Math.floor(img.width / cols);
-  const gridFrameHeight = Math.floor(img.height / rows);
+  const { rows, cols, cellWidth: gridFrameWidth, cellHeight: gridFrameHeight } = computeGridLayout(img.width, img.height, grid);
 
-  if (gridFrameWidth === 0 || gridFrameHeight === 0) return [];
+  if (gridFrameWidth <= 0 || gridFrameHeight <= 0 || rows === 0 || cols === 0) return [];
+
+  const isEmpty = skipEmpty ? createEmptyCellCheck(img, keying, skipEmpty) : null;
 
   // Determine actual output size
   const finalWidth = customSize ? customSize.width : gridFrameWidth;
   const finalHeight = customSize ? customSize.height : gridFrameHeight;
 
-  const canvas = document.createElement('canvas');
-  canvas.width = finalWidth;
-  canvas.height = finalHeight;
-  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  const canvas = createCanvas(finalWidth, finalHeight);
+  const ctx = get2dContext(canvas);
 
   if (!ctx) throw new Error('No canvas context');
 
-  // Determine Background Color if needed
-  let bgColor: {r: number, g: number, b: number} | null = null;
-  if (removeBackground) {
-      if (backgroundColor) {
-          bgColor = backgroundColor;
-      } else {
-          bgColor = getBackgroundColor(img);
-      }
-  }
-
-  let frameId = 0;
+  // Determine the colors to key out if needed
+  const keys = removeBackground ? resolveKeyColors(img, keying) : [];
 
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
+      const srcX = grid.offsetX + c * (gridFrameWidth + grid.spacingX);
+      const srcY = grid.offsetY + r * (gridFrameHeight + grid.spacingY);
+
+      // Skipped cells keep their index, so ids always map back to the cell (id = row * cols + col)
+      if (isEmpty && isEmpty({ x: srcX, y: srcY, width: gridFrameWidth, height: gridFrameHeight })) continue;
+
       ctx.clearRect(0, 0, finalWidth, finalHeight);
-      
-      const srcX = c * gridFrameWidth;
-      const srcY = r * gridFrameHeight;
 
       // Scaling Logic
       let scale = 1;
@@ -442,18 +734,21 @@ export const sliceSpritesheet = async (
       );
 
       // Remove Background if enabled
-      if (removeBackground && bgColor) {
-        removeBackgroundFromContext(ctx, finalWidth, finalHeight, bgColor);
+      if (keys.length > 0) {
+        removeBackgroundFromContext(ctx, finalWidth, finalHeight, keys, keying);
       }
 
       frames.push({
-        id: frameId++,
-        dataUrl: canvas.toDataURL('image/png'),
+        id: r * cols + c,
+        dataUrl: await canvasToDataUrl(canvas),
         width: finalWidth,
         height: finalHeight,
-        sourceRect: { x: srcX, y: srcY, width: gridFrameWidth, height: gridFrameHeight }
+        sourceRect: { x: srcX, y: srcY, width: gridFrameWidth, height: gridFrameHeight },
+        row: r,
+        col: c
       });
     }
+    onProgress?.((r + 1) / rows);
   }
 
   return frames;
@@ -0,0 +1,107 @@
+import { Point, Rect } from '../types';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Editor camera. `zoom` is relative to the fit-to-view scale and the center is in image pixels,
+ * so the view survives viewport resizes.
+ */
+export interface ViewState {
+  zoom: number;
+  centerX: number;
+  centerY: number;
+}
+
+// Screen position of an image point: screen = image * scale + offset
+export interface ViewTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+const MAX_PIXEL_SCALE = 64; // Screen pixels per image pixel at full zoom
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const getFitScale = (image: Size, viewport: Size) =>
+  Math.min(viewport.width / image.width, viewport.height / image.height);
+
+export const getMaxZoom = (image: Size, viewport: Size) =>
+  Math.max(1, MAX_PIXEL_SCALE / getFitScale(image, viewport));
+
+export const createFitView = (image: Size): ViewState => ({
+  zoom: 1,
+  centerX: image.width / 2,
+  centerY: image.height / 2
+});
+
+/**
+ * Keeps the zoom in range and the image covering the viewport; an axis that fits is centered.
+ */
+export const clampView = (view: ViewState, image: Size, viewport: Size): ViewState => {
+  const zoom = clamp(view.zoom, 1, getMaxZoom(image, viewport));
+  const scale = getFitScale(image, viewport) * zoom;
+  const halfWidth = viewport.width / 2 / scale;
+  const halfHeight = viewport.height / 2 / scale;
+
+  return {
+    zoom,
+    centerX: image.width <= halfWidth * 2 ? image.width / 2 : clamp(view.centerX, halfWidth, image.width - halfWidth),
+    centerY: image.height <= halfHeight * 2 ? image.height / 2 : clamp(view.centerY, halfHeight, image.height - halfHeight)
+  };
+};
+
+export const getViewTransform = (view: ViewState, image: Size, viewport: Size): ViewTransform => {
+  const scale = getFitScale(image, viewport) * view.zoom;
+  return {
+    scale,
+    offsetX: viewport.width / 2 - view.centerX * scale,
+    offsetY: viewport.height / 2 - view.centerY * scale
+  };
+};
+
+export const screenToImage = (point: Point, transform: ViewTransform): Point => ({
+  x: (point.x - transform.offsetX) / transform.scale,
+  y: (point.y - transform.offsetY) / transform.scale
+});
+
+/**
+ * View at the given zoom that puts the image point `anchor` under `screenPoint`.
+ * Pinch gestures use it to zoom and pan in one go.
+ */
+export const anchorViewAt = (zoom: number, anchor: Point, screenPoint: Point, image: Size, viewport: Size): ViewState => {
+  const nextZoom = clamp(zoom, 1, getMaxZoom(image, viewport));
+  const scale = getFitScale(image, viewport) * nextZoom;
+
+  return clampView({
+    zoom: nextZoom,
+    centerX: anchor.x - (screenPoint.x - viewport.width / 2) / scale,
+    centerY: anchor.y - (screenPoint.y - viewport.height / 2) / scale
+  }, image, viewport);
+};
+
+/**
+ * Zooms so the image point under `screenPoint` stays under it.
+ */
+export const zoomViewAt = (view: ViewState, zoom: number, screenPoint: Point, image: Size, viewport: Size): ViewState => {
+  const anchor = screenToImage(screenPoint, getViewTransform(view, image, viewport));
+  return anchorViewAt(zoom, anchor, screenPoint, image, viewport);
+};
+
+/**
+ * Part of the image currently on screen, in image pixels.
+ */
+export const getVisibleRegion = (view: ViewState, image: Size, viewport: Size): Rect => {
+  const { scale, offsetX, offsetY } = getViewTransform(view, image, viewport);
+  const x = Math.max(0, -offsetX / scale);
+  const y = Math.max(0, -offsetY / scale);
+  return {
+    x,
+    y,
+    width: Math.min(image.width, (viewport.width - offsetX) / scale) - x,
+    height: Math.min(image.height, (viewport.height - offsetY) / scale) - y
+  };
+};
@@ -0,0 +1,135 @@
+import { AnimationOptions, ProcessedFrame } from '../types';
+import { dataUrlToBytes, getFrameDelays, getFramesImageData } from './exportUtils';
+
+interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+// Chunks that make up the image data of a single (still) WebP
+const FRAME_CHUNKS = ['ALPH', 'VP8 ', 'VP8L'];
+
+/**
+ * Splits a WebP file into its RIFF chunks.
+ */
+const readChunks = (bytes: Uint8Array): RiffChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12; // Skip "RIFF" + size + "WEBP"
+
+  while (offset + 8 <= bytes.length) {
+    const fourcc = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+
+  return chunks;
+};
+
+/**
+ * Serializes a RIFF chunk, padding odd payloads to an even size.
+ */
+const writeChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  for (let i = 0; i < 4; i++) chunk[i] = fourcc.charCodeAt(i);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const writeUint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+/**
+ * Checks whether the browser can encode canvases as WebP (Safari cannot).
+ */
+export const isWebpEncodingSupported = (): boolean => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  return canvas.toDataURL('image/webp').startsWith('data:image/webp');
+};
+
+/**
+ * Encodes RGBA frames (all of the same size) into an animated WebP.
+ * Each frame is compressed by the browser's own WebP encoder and then
+ * wrapped into ANMF chunks.
+ */
+export const encodeAnimatedWebp = (frames: ImageData[], delays: number[], loopCount: number): Uint8Array => {
+  if (!isWebpEncodingSupported()) {
+    throw new Error('WebP encoding is not supported by this browser');
+  }
+
+  const width = frames[0]?.width ?? 1;
+  const height = frames[0]?.height ?? 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No canvas context');
+
+  const anmfChunks = frames.map((frame, i) => {
+    ctx.clearRect(0, 0, width, height);
+    ctx.putImageData(frame, 0, 0);
+    const still = dataUrlToBytes(canvas.toDataURL('image/webp', 1));
+    const imageChunks = readChunks(still)
+      .filter(chunk => FRAME_CHUNKS.includes(chunk.fourcc))
+      .map(chunk => writeChunk(chunk.fourcc, chunk.data));
+
+    const header = new Uint8Array(16);
+    writeUint24(header, 0, 0); // X offset / 2
+    writeUint24(header, 3, 0); // Y offset / 2
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, Math.min(0xffffff, Math.round(delays[i])));
+    header[15] = 0x02; // Do not blend with the previous frame, no disposal
+
+    return writeChunk('ANMF', concat([header, ...imageChunks]));
+  });
+
+  // VP8X: animation + alpha flags and canvas size
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x10 | 0x02;
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  // ANIM: transparent background + loop count
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, loopCount, true);
+
+  const body = concat([
+    Uint8Array.from([87, 69, 66, 80]), // "WEBP"
+    writeChunk('VP8X', vp8x),
+    writeChunk('ANIM', anim),
+    ...anmfChunks
+  ]);
+
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set([82, 73, 70, 70]); // "RIFF"
+  new DataView(riffHeader.buffer).setUint32(4, body.length, true);
+  return concat([riffHeader, body]);
+};
+
+/**
+ * Renders the processed frames as an animated WebP blob.
+ */
+export const framesToWebp = async (frames: ProcessedFrame[], options: AnimationOptions): Promise<Blob> => {
+  const imageData = await getFramesImageData(frames);
+  const delays = getFrameDelays(frames, options.delay);
+  return new Blob([encodeAnimatedWebp(imageData, delays, options.loopCount)], { type: 'image/webp' });
+};